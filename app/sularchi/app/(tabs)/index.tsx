@@ -121,6 +121,13 @@ export default function HomeScreen() {
             <Text style={styles.quickActionIcon}>🏆</Text>
             <Text style={styles.quickActionLabel}>Leaderboard</Text>
           </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.quickAction, pressed && { opacity: 0.8 }]}
+            onPress={() => router.push('/settings')}
+          >
+            <Text style={styles.quickActionIcon}>⚙️</Text>
+            <Text style={styles.quickActionLabel}>Settings</Text>
+          </Pressable>
         </View>
       </ThemedView>
 
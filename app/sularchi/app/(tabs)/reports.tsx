@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   StyleSheet,
   View,
@@ -7,31 +7,97 @@ import {
   Pressable,
   RefreshControl,
   SafeAreaView,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { Image } from 'expo-image';
 import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
 import {
-  getComplaints,
+  deleteComplaint,
+  getBrandCounts,
+  getComplaintsPage,
+  getPinnedComplaints,
   getStats,
+  getSubcategoryCounts,
   type Complaint,
+  type ComplaintCursor,
 } from '@/services/complaint-store';
 import { formatCoordinates } from '@/services/location-service';
+import { SEVERITY_LEVELS } from '@/services/hazard-severity';
+import { isClosedStatus, STATUS_INFO } from '@/services/complaint-status';
+import { addSyncListener, isSyncEnabled, SYNC_STATE_INFO } from '@/services/sync-outbox';
+import { VOLUME_OPTIONS } from '@/services/waste-volume';
+import {
+  getDisposalInfo,
+  getSubcategories,
+  type WasteCategory,
+} from '@/services/waste-classifier';
+
+const PAGE_SIZE = 20;
 
 export default function ReportsScreen() {
+  const [pinned, setPinned] = useState<Complaint[]>([]);
   const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [cursor, setCursor] = useState<ComplaintCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [stats, setStats] = useState({
     totalReports: 0,
     totalPoints: 0,
     streak: 0,
     categoryCounts: {} as Record<string, number>,
   });
+  const [brandCounts, setBrandCounts] = useState<{ brand: string; count: number }[]>([]);
   const [refreshing, setRefreshing] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<WasteCategory | null>(null);
+  const [subcategoryFilter, setSubcategoryFilter] = useState<string | null>(null);
+  const [subcategoryCounts, setSubcategoryCounts] = useState<Record<string, number>>({});
+  const [loadError, setLoadError] = useState(false);
 
   const loadData = useCallback(async () => {
-    const [c, s] = await Promise.all([getComplaints(), getStats()]);
-    setComplaints(c);
-    setStats(s);
-  }, []);
+    const query = { category: categoryFilter ?? undefined, subcategory: subcategoryFilter ?? undefined };
+    try {
+      const [p, page, s, b, sc] = await Promise.all([
+        getPinnedComplaints(query),
+        getComplaintsPage({ ...query, excludePinned: true, limit: PAGE_SIZE }),
+        getStats(),
+        getBrandCounts(),
+        categoryFilter ? getSubcategoryCounts(categoryFilter) : Promise.resolve({}),
+      ]);
+      setPinned(p);
+      setComplaints(page.complaints);
+      setCursor(page.nextCursor);
+      setStats(s);
+      setBrandCounts(b);
+      setSubcategoryCounts(sc);
+      setLoadError(false);
+    } catch (e) {
+      console.error('Error loading reports:', e);
+      setLoadError(true);
+    }
+  }, [categoryFilter, subcategoryFilter]);
+
+  const handleLoadMore = async () => {
+    if (!cursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await getComplaintsPage({
+        category: categoryFilter ?? undefined,
+        subcategory: subcategoryFilter ?? undefined,
+        excludePinned: true,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+      setComplaints((current) => [...current, ...page.complaints]);
+      setCursor(page.nextCursor);
+    } catch (e) {
+      console.error('Error loading more reports:', e);
+      setLoadError(true);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   useFocusEffect(
     useCallback(() => {
@@ -39,32 +105,55 @@ export default function ReportsScreen() {
     }, [loadData])
   );
 
+  // Uploads and status changes from the server change the cards
+  useEffect(
+    () =>
+      addSyncListener((summary) => {
+        if (summary.pushed > 0 || summary.failed > 0 || summary.pulled > 0) loadData();
+      }),
+    [loadData]
+  );
+
   const handleRefresh = async () => {
     setRefreshing(true);
-    await loadData();
-    setRefreshing(false);
+    try {
+      await loadData();
+    } finally {
+      setRefreshing(false);
+    }
   };
 
-  const statusColor = (status: string) => {
-    switch (status) {
-      case 'resolved':
-        return '#4CAF50';
-      case 'in-progress':
-        return '#FF9800';
-      default:
-        return '#9E9E9E';
-    }
+  // Only offer filters for categories that have reports
+  const reportedCategories = Object.keys(stats.categoryCounts) as WasteCategory[];
+  const subcategoryOptions = categoryFilter
+    ? getSubcategories(categoryFilter).filter((sub) => subcategoryCounts[sub.id] > 0)
+    : [];
+  // Urgent reports that are still open stay pinned at the top
+  const isPinned = (c: Complaint) => c.priority === 'urgent' && !isClosedStatus(c.status);
+  const listedComplaints = [...pinned, ...complaints];
+
+  const handleSelectCategoryFilter = (category: WasteCategory | null) => {
+    setCategoryFilter(category);
+    setSubcategoryFilter(null);
   };
 
-  const statusLabel = (status: string) => {
-    switch (status) {
-      case 'resolved':
-        return 'Resolved';
-      case 'in-progress':
-        return 'In Progress';
-      default:
-        return 'Pending';
-    }
+  const handleDelete = (complaint: Complaint) => {
+    Alert.alert('Delete Report', `Delete this ${complaint.wasteLabel} report and its photo?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteComplaint(complaint.id);
+            await loadData();
+          } catch (e) {
+            console.error('Error deleting complaint:', e);
+            Alert.alert('Error', 'Failed to delete the report. Please try again.');
+          }
+        },
+      },
+    ]);
   };
 
   const formatDate = (iso: string) => {
@@ -96,17 +185,79 @@ export default function ReportsScreen() {
     </View>
   );
 
+  const renderFilters = () => {
+    if (reportedCategories.length < 2 && subcategoryOptions.length === 0) return null;
+    return (
+      <View style={styles.filters}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          <Pressable
+            style={[styles.filterChip, !categoryFilter && styles.filterChipActive]}
+            onPress={() => handleSelectCategoryFilter(null)}
+          >
+            <Text style={[styles.filterChipText, !categoryFilter && styles.filterChipTextActive]}>All</Text>
+          </Pressable>
+          {reportedCategories.map((category) => {
+            const info = getDisposalInfo(category);
+            const active = category === categoryFilter;
+            return (
+              <Pressable
+                key={category}
+                style={[styles.filterChip, active && styles.filterChipActive]}
+                onPress={() => handleSelectCategoryFilter(active ? null : category)}
+              >
+                <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                  {info.icon} {info.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+        {subcategoryOptions.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            {subcategoryOptions.map((sub) => {
+              const active = sub.id === subcategoryFilter;
+              return (
+                <Pressable
+                  key={sub.id}
+                  style={[styles.filterChip, styles.subfilterChip, active && styles.filterChipActive]}
+                  onPress={() => setSubcategoryFilter(active ? null : sub.id)}
+                >
+                  <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                    {sub.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
   const renderComplaintItem = ({ item }: { item: Complaint }) => (
-    <View style={styles.card}>
-      <Image source={{ uri: item.imageUri }} style={styles.cardImage} contentFit="cover" />
+    <Pressable
+      style={[styles.card, isPinned(item) && styles.cardUrgent]}
+      onPress={() => router.push(`/report/${item.id}`)}
+      onLongPress={() => handleDelete(item)}
+    >
+      <Image source={{ uri: item.thumbnailUri ?? item.imageUri }} style={styles.cardImage} contentFit="cover" />
       <View style={styles.cardContent}>
+        {item.hazard && (
+          <Text style={[styles.severityText, { color: SEVERITY_LEVELS[item.hazard.severity].color }]}>
+            {item.hazard.urgent ? '🚨 Urgent · ' : ''}
+            {SEVERITY_LEVELS[item.hazard.severity].icon} {SEVERITY_LEVELS[item.hazard.severity].label} severity
+          </Text>
+        )}
         <View style={styles.cardTopRow}>
           <Text style={styles.cardCategory}>
-            {getCategoryIcon(item.wasteCategory)} {item.wasteLabel}
+            {getDisposalInfo(item.wasteCategory).icon} {item.wasteLabel}
+            {item.wasteSubcategory
+              ? ` · ${getDisposalInfo(item.wasteCategory, item.wasteSubcategory).subcategoryLabel ?? item.wasteSubcategory}`
+              : ''}
           </Text>
-          <View style={[styles.statusBadge, { backgroundColor: statusColor(item.status) + '20' }]}>
-            <Text style={[styles.statusText, { color: statusColor(item.status) }]}>
-              {statusLabel(item.status)}
+          <View style={[styles.statusBadge, { backgroundColor: STATUS_INFO[item.status].color + '20' }]}>
+            <Text style={[styles.statusText, { color: STATUS_INFO[item.status].color }]}>
+              {STATUS_INFO[item.status].label}
             </Text>
           </View>
         </View>
@@ -119,25 +270,48 @@ export default function ReportsScreen() {
           <Text style={styles.cardMetaText}>
             📍 {item.location.address || formatCoordinates(item.location.latitude, item.location.longitude)}
           </Text>
+          {item.volume && (
+            <Text style={styles.cardMetaText}>
+              {VOLUME_OPTIONS[item.volume].icon} {VOLUME_OPTIONS[item.volume].label} ·{' '}
+              {VOLUME_OPTIONS[item.volume].vehicle}
+              {item.priority === 'high' || item.priority === 'urgent' ? `  ⏫ ${item.priority} priority` : ''}
+            </Text>
+          )}
+          {(item.brand || item.recyclingCodes) && (
+            <Text style={styles.cardMetaText}>
+              {[item.brand && `🏷️ ${item.brand}`, item.recyclingCodes && `♻️ ${item.recyclingCodes.join(', ')}`]
+                .filter(Boolean)
+                .join('  ')}
+            </Text>
+          )}
         </View>
 
         <View style={styles.cardFooter}>
           <Text style={styles.cardDate}>{formatDate(item.createdAt)}</Text>
+          {isSyncEnabled() && item.syncState && (
+            <Text style={[styles.syncBadge, { color: SYNC_STATE_INFO[item.syncState].color }]}>
+              {SYNC_STATE_INFO[item.syncState].icon} {SYNC_STATE_INFO[item.syncState].label}
+            </Text>
+          )}
           <Text style={styles.cardPoints}>+{item.pointsAwarded} pts</Text>
         </View>
       </View>
-    </View>
+    </Pressable>
   );
 
-  const renderEmpty = () => (
-    <View style={styles.emptyContainer}>
-      <Text style={styles.emptyIcon}>📋</Text>
-      <Text style={styles.emptyTitle}>No Reports Yet</Text>
-      <Text style={styles.emptySubtitle}>
-        Scan waste items to file complaints and earn points!
-      </Text>
-    </View>
-  );
+  const renderEmpty = () => {
+    // After a failed load the list is empty for want of data, not of reports
+    if (loadError) return null;
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyIcon}>📋</Text>
+        <Text style={styles.emptyTitle}>No Reports Yet</Text>
+        <Text style={styles.emptySubtitle}>
+          Scan waste items to file complaints and earn points!
+        </Text>
+      </View>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -145,12 +319,30 @@ export default function ReportsScreen() {
         <Text style={styles.headerTitle}>My Reports</Text>
       </View>
       {renderStatsBar()}
+      {brandCounts.length > 0 && (
+        <Text style={styles.brandSummary} numberOfLines={1}>
+          🏷️ Top brands:{' '}
+          {brandCounts
+            .slice(0, 3)
+            .map(({ brand, count }) => `${brand} (${count})`)
+            .join(' · ')}
+        </Text>
+      )}
+      {renderFilters()}
+      {loadError && (
+        <Text style={styles.loadError}>⚠️ Could not load your reports. Pull down to try again.</Text>
+      )}
       <FlatList
-        data={complaints}
+        data={listedComplaints}
         keyExtractor={(item) => item.id}
         renderItem={renderComplaintItem}
         ListEmptyComponent={renderEmpty}
-        contentContainerStyle={complaints.length === 0 ? styles.emptyList : styles.listContent}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.loadingMore} color="#2E7D32" /> : null
+        }
+        contentContainerStyle={listedComplaints.length === 0 ? styles.emptyList : styles.listContent}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="#2E7D32" />
         }
@@ -160,21 +352,6 @@ export default function ReportsScreen() {
   );
 }
 
-function getCategoryIcon(category: string): string {
-  const icons: Record<string, string> = {
-    plastic: '♻️',
-    paper: '📄',
-    glass: '🫙',
-    metal: '🥫',
-    organic: '🍂',
-    'e-waste': '🔌',
-    textile: '👕',
-    hazardous: '☢️',
-    unknown: '❓',
-  };
-  return icons[category] || '❓';
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -219,10 +396,64 @@ const styles = StyleSheet.create({
     backgroundColor: '#e0e0e0',
     marginVertical: 4,
   },
+  brandSummary: {
+    fontSize: 13,
+    color: '#555',
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  loadError: {
+    fontSize: 13,
+    color: '#C62828',
+    backgroundColor: '#FFEBEE',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  filters: {
+    backgroundColor: '#fff',
+    paddingVertical: 8,
+    marginTop: -8,
+    marginBottom: 8,
+    gap: 8,
+  },
+  filterRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fafafa',
+  },
+  subfilterChip: {
+    paddingVertical: 4,
+  },
+  filterChipActive: {
+    backgroundColor: '#2E7D32',
+    borderColor: '#2E7D32',
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#555',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+  },
   listContent: {
     padding: 16,
     gap: 12,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   emptyList: {
     flex: 1,
   },
@@ -237,6 +468,10 @@ const styles = StyleSheet.create({
     elevation: 2,
     marginBottom: 12,
   },
+  cardUrgent: {
+    borderWidth: 2,
+    borderColor: '#C62828',
+  },
   cardImage: {
     width: '100%',
     height: 160,
@@ -244,6 +479,11 @@ const styles = StyleSheet.create({
   cardContent: {
     padding: 16,
   },
+  severityText: {
+    fontSize: 13,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
   cardTopRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -289,6 +529,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  syncBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   cardPoints: {
     fontSize: 14,
     fontWeight: '700',
@@ -9,71 +9,176 @@ import {
   Platform,
   Alert,
 } from 'react-native';
-import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import {
+  CameraView,
+  CameraType,
+  useCameraPermissions,
+  type BarcodeScanningResult,
+} from 'expo-camera';
 import { router } from 'expo-router';
-import { classifyWaste, type ClassificationResult } from '@/services/waste-classifier';
+import {
+  applyActiveRuleset,
+  classifyBarcode,
+  classifyWaste,
+  getCandidateConfidence,
+  getDisposalInfo,
+  type ClassificationResult,
+  type WasteCategory,
+} from '@/services/waste-classifier';
 import { getCurrentLocation } from '@/services/location-service';
 import { fileComplaint, type GeoLocation } from '@/services/complaint-store';
+import { recordCorrection } from '@/services/correction-learning';
+import {
+  assessHazard,
+  getImpliedHazardFlags,
+  needsHazardAssessment,
+  type HazardFlag,
+} from '@/services/hazard-severity';
+import { getActiveRuleset, selectRulesetForCity } from '@/services/waste-taxonomy';
+import { isProductDatabaseAvailable } from '@/services/product-database';
+import { estimateVolume, type WasteVolume } from '@/services/waste-volume';
 import { ClassificationResultCard } from '@/components/classification-result-card';
 
 type ScanState = 'camera' | 'processing' | 'result';
+type ScanMode = 'photo' | 'barcode';
 
 export default function ScanScreen() {
   const [permission, requestPermission] = useCameraPermissions();
   const [facing, setFacing] = useState<CameraType>('back');
   const [scanState, setScanState] = useState<ScanState>('camera');
+  const [scanMode, setScanMode] = useState<ScanMode>('photo');
   const [capturedUri, setCapturedUri] = useState<string | null>(null);
   const [result, setResult] = useState<ClassificationResult | null>(null);
+  const [selectedCategory, setSelectedCategory] = useState<WasteCategory | null>(null);
+  const [selectedSubcategory, setSelectedSubcategory] = useState<string | undefined>(undefined);
+  const [hazardFlags, setHazardFlags] = useState<HazardFlag[]>([]);
+  const [volume, setVolume] = useState<WasteVolume>('single');
   const [location, setLocation] = useState<GeoLocation | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [submittedItemIndexes, setSubmittedItemIndexes] = useState<number[]>([]);
   const [pointsAwarded, setPointsAwarded] = useState<number | null>(null);
   const cameraRef = useRef<CameraView>(null);
+  // The scanner fires for every frame a barcode is visible; handle it once
+  const barcodeHandledRef = useRef(false);
 
-  const handleCapture = useCallback(async () => {
-    if (!cameraRef.current) return;
+  /**
+   * Take a photo (every report needs one), classify it with `classify` and
+   * show the result.
+   */
+  const captureAndClassify = useCallback(
+    async (classify: (photoUri: string) => Promise<ClassificationResult>) => {
+      if (!cameraRef.current) return;
 
-    try {
-      const photo = await cameraRef.current.takePictureAsync({
-        quality: 0.7,
-        base64: false,
-      });
+      try {
+        const photo = await cameraRef.current.takePictureAsync({
+          quality: 0.7,
+          base64: false,
+        });
 
-      if (!photo) return;
+        if (!photo) {
+          barcodeHandledRef.current = false;
+          return;
+        }
 
-      setCapturedUri(photo.uri);
-      setScanState('processing');
+        setCapturedUri(photo.uri);
+        setScanState('processing');
 
-      // Run classification and GPS fetch in parallel
-      const [classification, geoLocation] = await Promise.all([
-        classifyWaste(photo.uri),
-        getCurrentLocation(),
-      ]);
+        // Run classification and GPS fetch in parallel
+        const rulesetBefore = getActiveRuleset();
+        let [classification, geoLocation] = await Promise.all([
+          classify(photo.uri),
+          getCurrentLocation(),
+        ]);
 
-      setResult(classification);
-      setLocation(geoLocation);
-      setScanState('result');
-    } catch (error) {
-      console.error('Error capturing/classifying:', error);
-      Alert.alert('Error', 'Failed to capture or classify the image. Please try again.');
-      setScanState('camera');
-    }
-  }, []);
+        // Follow the local sorting rules when the user's city has its own ruleset
+        const ruleset = selectRulesetForCity(geoLocation?.city);
+        if (ruleset !== rulesetBefore) {
+          classification = applyActiveRuleset(classification);
+        }
+
+        setResult(classification);
+        setSelectedCategory(classification.category);
+        setSelectedSubcategory(classification.subcategory);
+        setHazardFlags(getImpliedHazardFlags(classification.subcategory));
+        setVolume(estimateVolume(classification));
+        setLocation(geoLocation);
+        setScanState('result');
+      } catch (error) {
+        console.error('Error capturing/classifying:', error);
+        Alert.alert('Error', 'Failed to capture or classify the image. Please try again.');
+        barcodeHandledRef.current = false;
+        setScanState('camera');
+      }
+    },
+    []
+  );
+
+  const handleCapture = useCallback(() => captureAndClassify(classifyWaste), [captureAndClassify]);
+
+  const handleBarcodeScanned = useCallback(
+    ({ data }: BarcodeScanningResult) => {
+      if (barcodeHandledRef.current) return;
+      barcodeHandledRef.current = true;
+
+      // Unknown products fall back to classifying the photo
+      captureAndClassify(
+        async (photoUri) => classifyBarcode(data) ?? { ...(await classifyWaste(photoUri)), barcode: data }
+      );
+    },
+    [captureAndClassify]
+  );
 
   const handleSubmitReport = useCallback(async () => {
-    if (!result || !capturedUri || !location) return;
+    if (!result || !selectedCategory || !capturedUri || !location) return;
+
+    const items = result.items ?? [];
+    const isMixed = items.length > 1;
+    const isCorrected = selectedCategory !== result.category;
+    const confirmed = getDisposalInfo(selectedCategory, isMixed ? undefined : selectedSubcategory);
+    const confirmedLabel = confirmed.subcategoryLabel
+      ? `${confirmed.label} (${confirmed.subcategoryLabel})`
+      : confirmed.label;
 
     setIsSubmitting(true);
     try {
       const { pointsAwarded: pts } = await fileComplaint({
         imageUri: capturedUri,
-        wasteCategory: result.category,
-        confidence: result.confidence,
-        wasteLabel: result.label,
-        description: result.description,
+        wasteCategory: selectedCategory,
+        wasteSubcategory: isMixed ? undefined : selectedSubcategory,
+        aiCategory: result.category,
+        confidence: getCandidateConfidence(result, selectedCategory),
+        wasteLabel: isMixed ? 'Mixed Waste' : confirmed.label,
+        description: isMixed
+          ? `Mixed waste: ${items
+              .map((item) => `${item.label} (${getDisposalInfo(item.category).label})`)
+              .join(', ')}.`
+          : isCorrected
+            ? `Confirmed as ${confirmedLabel} (AI suggested ${result.label}). ${confirmed.description}`
+            : result.description,
         location,
+        ...(isMixed && { detectedItems: items }),
+        brand: result.brand,
+        recyclingCodes: result.recyclingCodes,
+        ...(needsHazardAssessment(selectedCategory) && {
+          hazard: assessHazard(selectedCategory, hazardFlags),
+        }),
+        volume,
       });
 
+      // The report is filed; failing to learn from the correction must not undo that
+      if (isCorrected && result.labels) {
+        try {
+          await recordCorrection({
+            labels: result.labels,
+            aiCategory: result.category,
+            correctedCategory: selectedCategory,
+          });
+        } catch (e) {
+          console.warn('Failed to record label correction:', e);
+        }
+      }
+
       setPointsAwarded(pts);
       setSubmitted(true);
     } catch (error) {
@@ -82,15 +187,89 @@ export default function ScanScreen() {
     } finally {
       setIsSubmitting(false);
     }
-  }, [result, capturedUri, location]);
+  }, [result, selectedCategory, selectedSubcategory, hazardFlags, volume, capturedUri, location]);
+
+  const handleSubmitItemReport = useCallback(
+    async (index: number) => {
+      const item = result?.items?.[index];
+      if (!item || !capturedUri || !location) return;
+
+      const info = getDisposalInfo(item.category, item.subcategory);
+      setIsSubmitting(true);
+      try {
+        const { pointsAwarded: pts } = await fileComplaint({
+          imageUri: capturedUri,
+          wasteCategory: item.category,
+          wasteSubcategory: item.subcategory,
+          aiCategory: item.category,
+          confidence: item.confidence,
+          wasteLabel: info.label,
+          description: `Detected: ${item.label}. ${info.description}`,
+          location,
+          boundingBox: item.box,
+          // Items filed one by one skip the questions; rate them from what the AI saw
+          ...(needsHazardAssessment(item.category) && {
+            hazard: assessHazard(item.category, getImpliedHazardFlags(item.subcategory)),
+          }),
+          volume: 'single',
+        });
+
+        const filed = [...submittedItemIndexes, index];
+        setSubmittedItemIndexes(filed);
+        setPointsAwarded((current) => (current ?? 0) + pts);
+        if (filed.length === result.items?.length) {
+          setSubmitted(true);
+        }
+      } catch (error) {
+        console.error('Error filing complaint:', error);
+        Alert.alert('Error', 'Failed to submit the report. Please try again.');
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [result, capturedUri, location, submittedItemIndexes]
+  );
+
+  const handleSelectCategory = useCallback(
+    (category: WasteCategory) => {
+      setSelectedCategory(category);
+      // Keep the AI's sub-category only while its category is selected; an
+      // abstained result keeps it on its demoted guess
+      setSelectedSubcategory(
+        category === result?.category
+          ? result.subcategory
+          : result?.alternatives?.find((a) => a.category === category)?.subcategory
+      );
+    },
+    [result]
+  );
+
+  const handleSelectSubcategory = useCallback((subcategory: string | undefined) => {
+    setSelectedSubcategory(subcategory);
+    setHazardFlags((flags) =>
+      Array.from(new Set([...flags, ...getImpliedHazardFlags(subcategory)]))
+    );
+  }, []);
+
+  const handleToggleHazardFlag = useCallback((flag: HazardFlag) => {
+    setHazardFlags((flags) =>
+      flags.includes(flag) ? flags.filter((f) => f !== flag) : [...flags, flag]
+    );
+  }, []);
 
   const handleScanAgain = useCallback(() => {
     setCapturedUri(null);
     setResult(null);
+    setSelectedCategory(null);
+    setSelectedSubcategory(undefined);
+    setHazardFlags([]);
+    setVolume('single');
     setLocation(null);
     setIsSubmitting(false);
     setSubmitted(false);
+    setSubmittedItemIndexes([]);
     setPointsAwarded(null);
+    barcodeHandledRef.current = false;
     setScanState('camera');
   }, []);
 
@@ -135,7 +314,7 @@ export default function ScanScreen() {
   }
 
   // Show classification result
-  if (scanState === 'result' && result && capturedUri) {
+  if (scanState === 'result' && result && selectedCategory && capturedUri) {
     return (
       <SafeAreaView style={styles.resultContainer}>
         <View style={styles.resultHeader}>
@@ -147,12 +326,22 @@ export default function ScanScreen() {
         </View>
         <ClassificationResultCard
           result={result}
+          selectedCategory={selectedCategory}
+          onSelectCategory={handleSelectCategory}
+          selectedSubcategory={selectedSubcategory}
+          onSelectSubcategory={handleSelectSubcategory}
+          hazardFlags={hazardFlags}
+          onToggleHazardFlag={handleToggleHazardFlag}
+          volume={volume}
+          onSelectVolume={setVolume}
           imageUri={capturedUri}
           location={location}
           onSubmitReport={handleSubmitReport}
+          onSubmitItemReport={handleSubmitItemReport}
           onScanAgain={handleScanAgain}
           isSubmitting={isSubmitting}
           submitted={submitted}
+          submittedItemIndexes={submittedItemIndexes}
           pointsAwarded={pointsAwarded}
         />
       </SafeAreaView>
@@ -177,7 +366,13 @@ export default function ScanScreen() {
   // Camera view
   return (
     <View style={styles.cameraContainer}>
-      <CameraView ref={cameraRef} style={styles.camera} facing={facing}>
+      <CameraView
+        ref={cameraRef}
+        style={styles.camera}
+        facing={facing}
+        barcodeScannerSettings={{ barcodeTypes: ['ean13', 'ean8', 'upc_a'] }}
+        onBarcodeScanned={scanMode === 'barcode' ? handleBarcodeScanned : undefined}
+      >
         {/* Top overlay */}
         <SafeAreaView style={styles.topOverlay}>
           <Pressable style={styles.closeButton} onPress={() => router.back()}>
@@ -198,12 +393,30 @@ export default function ScanScreen() {
             <View style={[styles.corner, styles.bottomRight]} />
           </View>
           <Text style={styles.scanHint}>
-            Point camera at waste item
+            {scanMode === 'barcode'
+              ? 'Point camera at the product barcode'
+              : 'Point camera at waste item'}
           </Text>
         </View>
 
         {/* Bottom controls */}
         <View style={styles.bottomOverlay}>
+          {/* Without a product database no barcode would be recognised */}
+          {isProductDatabaseAvailable() && (
+            <View style={styles.modeToggle}>
+              {(['photo', 'barcode'] as const).map((mode) => (
+                <Pressable
+                  key={mode}
+                  style={[styles.modeOption, scanMode === mode && styles.modeOptionActive]}
+                  onPress={() => setScanMode(mode)}
+                >
+                  <Text style={[styles.modeText, scanMode === mode && styles.modeTextActive]}>
+                    {mode === 'photo' ? '📷 Photo' : '🏷️ Barcode'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
           <Pressable
             style={({ pressed }) => [
               styles.captureButton,
@@ -431,6 +644,29 @@ const styles = StyleSheet.create({
     paddingBottom: Platform.OS === 'android' ? 40 : 30,
     alignItems: 'center',
   },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    borderRadius: 20,
+    padding: 4,
+    marginBottom: 20,
+  },
+  modeOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  modeOptionActive: {
+    backgroundColor: '#fff',
+  },
+  modeText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeTextActive: {
+    color: '#1a1a1a',
+  },
   captureButton: {
     width: 80,
     height: 80,
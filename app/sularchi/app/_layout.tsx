@@ -1,9 +1,14 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { loadRulesetPreference } from '@/services/waste-taxonomy';
+import { loadProductDatabase, refreshProductDatabase } from '@/services/product-database';
+import { reconcilePhotoStorage } from '@/services/complaint-store';
+import { startSync } from '@/services/sync-outbox';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -12,11 +17,21 @@ export const unstable_settings = {
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
+  useEffect(() => {
+    loadRulesetPreference();
+    loadProductDatabase().then(refreshProductDatabase);
+    reconcilePhotoStorage().catch((e) => console.warn('Photo storage cleanup failed:', e));
+    return startSync();
+  }, []);
+
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="classifier-learning" options={{ title: 'AI Learning' }} />
+        <Stack.Screen name="settings" options={{ title: 'Settings' }} />
+        <Stack.Screen name="report/[id]" options={{ title: 'Report' }} />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
@@ -0,0 +1,191 @@
+import React, { useState, useCallback } from 'react';
+import { StyleSheet, View, Text, FlatList, Pressable, Alert } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+  getCorrectionHistory,
+  getLearnedWeights,
+  resetLearnedWeights,
+} from '@/services/correction-learning';
+import { getDisposalInfo, type WasteCategory } from '@/services/waste-classifier';
+
+interface WeightRow {
+  keyword: string;
+  adjustments: { category: WasteCategory; weight: number }[];
+}
+
+export default function ClassifierLearningScreen() {
+  const [rows, setRows] = useState<WeightRow[]>([]);
+  const [correctionCount, setCorrectionCount] = useState(0);
+
+  const loadData = useCallback(async () => {
+    const [weights, history] = await Promise.all([getLearnedWeights(), getCorrectionHistory()]);
+    setCorrectionCount(history.length);
+    setRows(
+      Object.entries(weights)
+        .map(([keyword, byCategory]) => ({
+          keyword,
+          adjustments: (Object.entries(byCategory) as [WasteCategory, number][])
+            .filter(([, weight]) => Math.abs(weight) >= 0.01)
+            .map(([category, weight]) => ({ category, weight }))
+            .sort((a, b) => b.weight - a.weight),
+        }))
+        .filter((row) => row.adjustments.length > 0)
+        .sort((a, b) => a.keyword.localeCompare(b.keyword))
+    );
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset Learning',
+      'Forget all corrections and go back to the default keyword weights?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            await resetLearnedWeights();
+            await loadData();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRow = ({ item }: { item: WeightRow }) => (
+    <View style={styles.row}>
+      <Text style={styles.keyword}>“{item.keyword}”</Text>
+      <View style={styles.adjustments}>
+        {item.adjustments.map(({ category, weight }) => {
+          const info = getDisposalInfo(category);
+          return (
+            <Text
+              key={category}
+              style={[styles.adjustment, { color: weight > 0 ? '#2E7D32' : '#C62828' }]}
+            >
+              {info.icon} {info.label} {weight > 0 ? '+' : ''}
+              {weight.toFixed(2)}
+            </Text>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>
+          Learned from {correctionCount} correction{correctionCount === 1 ? '' : 's'}
+        </Text>
+        <Pressable
+          style={({ pressed }) => [
+            styles.resetButton,
+            pressed && { opacity: 0.8 },
+            correctionCount === 0 && styles.resetButtonDisabled,
+          ]}
+          onPress={handleReset}
+          disabled={correctionCount === 0}
+        >
+          <Text style={styles.resetButtonText}>Reset</Text>
+        </Pressable>
+      </View>
+      <FlatList
+        data={rows}
+        keyExtractor={(item) => item.keyword}
+        renderItem={renderRow}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🧠</Text>
+            <Text style={styles.emptyText}>
+              When you change the category suggested by the AI, the keywords behind that guess
+              are re-weighted here.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  summaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  resetButton: {
+    backgroundColor: '#C62828',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  resetButtonDisabled: {
+    backgroundColor: '#E0E0E0',
+  },
+  resetButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+  },
+  keyword: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 6,
+  },
+  adjustments: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  adjustment: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingTop: 60,
+  },
+  emptyIcon: {
+    fontSize: 56,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#888',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,369 @@
+import React, { useState, useCallback } from 'react';
+import { StyleSheet, View, Text, ScrollView, Pressable, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { Image } from 'expo-image';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams } from 'expo-router';
+import {
+  getComplaintById,
+  getStatusHistory,
+  getUserProfile,
+  updateComplaintStatus,
+  type Complaint,
+} from '@/services/complaint-store';
+import {
+  getAllowedTransitions,
+  REPORTER_STATUSES,
+  STATUS_INFO,
+  type ComplaintStatus,
+  type StatusChange,
+} from '@/services/complaint-status';
+import { formatCoordinates } from '@/services/location-service';
+import { isSyncEnabled, retrySync, SYNC_STATE_INFO } from '@/services/sync-outbox';
+import { getDisposalInfo } from '@/services/waste-classifier';
+
+const ACTOR_ICONS: Record<StatusChange['actor']['kind'], string> = {
+  reporter: '🙋',
+  municipality: '🏛️',
+  system: '⚙️',
+};
+
+export default function ReportScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [complaint, setComplaint] = useState<Complaint | null | undefined>(undefined);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [note, setNote] = useState('');
+  const [updating, setUpdating] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [c, h] = await Promise.all([getComplaintById(id), getStatusHistory(id)]);
+      setComplaint(c);
+      setHistory(h);
+      setLoadError(false);
+    } catch (e) {
+      console.error('Error loading report:', e);
+      setLoadError(true);
+    }
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const handleChangeStatus = async (to: ComplaintStatus) => {
+    setUpdating(true);
+    try {
+      const profile = await getUserProfile();
+      await updateComplaintStatus(id, to, { actor: { kind: 'reporter', name: profile.name }, note });
+      setNote('');
+      await loadData();
+    } catch (e) {
+      console.error('Error updating status:', e);
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to update the status.');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRetrySync = async () => {
+    try {
+      await retrySync(id);
+      await loadData();
+    } catch (e) {
+      console.error('Error retrying upload:', e);
+    }
+  };
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  if (loadError && !complaint) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyIcon}>⚠️</Text>
+        <Text style={styles.emptyText}>Could not load this report.</Text>
+        <Pressable onPress={loadData}>
+          <Text style={styles.retryText}>Try Again</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (complaint === undefined) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#2E7D32" />
+      </View>
+    );
+  }
+
+  if (complaint === null) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyIcon}>🔍</Text>
+        <Text style={styles.emptyText}>This report no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const status = STATUS_INFO[complaint.status];
+  const actions = getAllowedTransitions(complaint.status).filter((s) => REPORTER_STATUSES.includes(s));
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Image source={{ uri: complaint.imageUri }} style={styles.photo} contentFit="cover" />
+
+      <View style={styles.section}>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>
+            {getDisposalInfo(complaint.wasteCategory).icon} {complaint.wasteLabel}
+          </Text>
+          <View style={[styles.statusBadge, { backgroundColor: status.color + '20' }]}>
+            <Text style={[styles.statusText, { color: status.color }]}>
+              {status.icon} {status.label}
+            </Text>
+          </View>
+        </View>
+        <Text style={styles.description}>{complaint.description}</Text>
+        <Text style={styles.meta}>
+          📍 {complaint.location.address || formatCoordinates(complaint.location.latitude, complaint.location.longitude)}
+        </Text>
+        <Text style={styles.meta}>🗓️ Filed {formatDate(complaint.createdAt)}</Text>
+        {isSyncEnabled() && complaint.syncState && (
+          <View style={styles.syncRow}>
+            <Text style={[styles.syncText, { color: SYNC_STATE_INFO[complaint.syncState].color }]}>
+              {SYNC_STATE_INFO[complaint.syncState].icon} {SYNC_STATE_INFO[complaint.syncState].label}
+              {complaint.syncError ? ` · ${complaint.syncError}` : ''}
+            </Text>
+            {complaint.syncState === 'failed' && (
+              <Pressable onPress={handleRetrySync}>
+                <Text style={styles.retryText}>Retry</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </View>
+
+      {/* Timeline */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🕓 Timeline</Text>
+        {history.map((change, index) => {
+          const info = STATUS_INFO[change.to];
+          const last = index === history.length - 1;
+          return (
+            <View key={`${change.at}-${index}`} style={styles.event}>
+              <View style={styles.eventRail}>
+                <View style={[styles.eventDot, { backgroundColor: info.color }]} />
+                {!last && <View style={styles.eventLine} />}
+              </View>
+              <View style={styles.eventBody}>
+                <Text style={styles.eventTitle}>
+                  {change.from ? `${info.icon} ${info.label}` : '📝 Reported'}
+                </Text>
+                <Text style={styles.eventMeta}>
+                  {formatDate(change.at)} · {ACTOR_ICONS[change.actor.kind]} {change.actor.name}
+                </Text>
+                {change.note && <Text style={styles.eventNote}>“{change.note}”</Text>}
+              </View>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Status actions */}
+      {actions.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>✏️ Update Status</Text>
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Add a note (optional)"
+            multiline
+          />
+          <View style={styles.actions}>
+            {actions.map((to) => (
+              <Pressable
+                key={to}
+                style={({ pressed }) => [
+                  styles.actionButton,
+                  { backgroundColor: STATUS_INFO[to].color },
+                  (pressed || updating) && { opacity: 0.7 },
+                ]}
+                onPress={() => handleChangeStatus(to)}
+                disabled={updating}
+              >
+                <Text style={styles.actionText}>
+                  {STATUS_INFO[to].icon} {to === 'resolved' ? 'Mark Cleaned Up' : 'Reopen'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyIcon: {
+    fontSize: 56,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#888',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  photo: {
+    width: '100%',
+    height: 240,
+  },
+  section: {
+    backgroundColor: '#fff',
+    padding: 16,
+    marginTop: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    flexShrink: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 8,
+  },
+  syncText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  retryText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#1976D2',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1a1a1a',
+    marginBottom: 12,
+  },
+  event: {
+    flexDirection: 'row',
+  },
+  eventRail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  eventDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 3,
+  },
+  eventLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#e0e0e0',
+    marginVertical: 2,
+  },
+  eventBody: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 16,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  eventNote: {
+    fontSize: 13,
+    color: '#555',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    padding: 10,
+    fontSize: 14,
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,385 @@
+import React, { useState, useCallback } from 'react';
+import { StyleSheet, View, Text, ScrollView, Pressable, TextInput, Alert } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import {
+  getVisionUsage,
+  setVisionBudgets,
+  type QuotaWindow,
+  type VisionUsage,
+} from '@/services/vision-quota';
+import { clearClassificationCache, getClassificationCacheSize } from '@/services/classification-cache';
+import { getUploadMetricsSummary } from '@/services/image-preprocessing';
+import { getPhotoStorageUsage, type PhotoStorageUsage } from '@/services/photo-storage';
+import {
+  clearRulesetChoice,
+  getActiveRuleset,
+  getChosenRulesetId,
+  listRulesets,
+  setActiveRuleset,
+} from '@/services/waste-taxonomy';
+
+type UploadSummary = Awaited<ReturnType<typeof getUploadMetricsSummary>>;
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const [usage, setUsage] = useState<VisionUsage | null>(null);
+  const [dailyInput, setDailyInput] = useState('');
+  const [monthlyInput, setMonthlyInput] = useState('');
+  const [cacheSize, setCacheSize] = useState(0);
+  const [uploads, setUploads] = useState<UploadSummary | null>(null);
+  const [photoUsage, setPhotoUsage] = useState<PhotoStorageUsage | null>(null);
+  const [rulesetChoice, setRulesetChoice] = useState<string | null>(getChosenRulesetId());
+
+  const loadData = useCallback(async () => {
+    const [u, size, summary] = await Promise.all([
+      getVisionUsage(),
+      getClassificationCacheSize(),
+      getUploadMetricsSummary(),
+    ]);
+    setUsage(u);
+    setDailyInput(String(u.daily.budget));
+    setMonthlyInput(String(u.monthly.budget));
+    setCacheSize(size);
+    setUploads(summary);
+    setPhotoUsage(getPhotoStorageUsage());
+    setRulesetChoice(getChosenRulesetId());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const handleSaveBudgets = async () => {
+    const daily = Number(dailyInput);
+    const monthly = Number(monthlyInput);
+    try {
+      await setVisionBudgets({ daily, monthly });
+      await loadData();
+    } catch {
+      Alert.alert('Invalid Budget', 'Budgets must be whole numbers of requests (0 or more).');
+    }
+  };
+
+  const handleClearCache = () => {
+    Alert.alert('Clear Cache', 'Forget all cached classification results?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          await clearClassificationCache();
+          await loadData();
+        },
+      },
+    ]);
+  };
+
+  const handleChooseRuleset = async (id: string | null) => {
+    if (id === null) {
+      await clearRulesetChoice();
+    } else {
+      await setActiveRuleset(id);
+    }
+    setRulesetChoice(id);
+  };
+
+  const renderRulesetOption = (id: string | null, title: string, detail: string) => {
+    const selected = rulesetChoice === id;
+    return (
+      <Pressable
+        key={id ?? 'auto'}
+        style={({ pressed }) => [styles.optionRow, pressed && { opacity: 0.8 }]}
+        onPress={() => handleChooseRuleset(id)}
+      >
+        <View style={styles.optionText}>
+          <Text style={[styles.optionTitle, selected && styles.optionTitleSelected]}>{title}</Text>
+          <Text style={styles.optionDetail}>{detail}</Text>
+        </View>
+        <Text style={styles.optionCheck}>{selected ? '✓' : ''}</Text>
+      </Pressable>
+    );
+  };
+
+  const formatReset = (iso: string) =>
+    new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const renderUsage = (title: string, window: QuotaWindow) => {
+    const ratio = window.budget > 0 ? Math.min(1, window.used / window.budget) : 1;
+    const barColor = ratio >= 1 ? '#C62828' : ratio >= 0.8 ? '#FF9800' : '#2E7D32';
+    return (
+      <View style={styles.usageRow}>
+        <View style={styles.usageHeader}>
+          <Text style={styles.usageTitle}>{title}</Text>
+          <Text style={styles.usageValue}>
+            {window.used} / {window.budget}
+          </Text>
+        </View>
+        <View style={styles.usageBarBg}>
+          <View style={[styles.usageBarFill, { width: `${ratio * 100}%`, backgroundColor: barColor }]} />
+        </View>
+        <Text style={styles.usageReset}>Resets {formatReset(window.resetsAt)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Vision Usage */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>📊 Vision API Usage</Text>
+        <Text style={styles.sectionDesc}>
+          When a budget is used up, scans fall back to cached results and the offline model.
+        </Text>
+        {usage && (
+          <>
+            {renderUsage('Today', usage.daily)}
+            {renderUsage('This month', usage.monthly)}
+          </>
+        )}
+        <View style={styles.budgetRow}>
+          <View style={styles.budgetField}>
+            <Text style={styles.budgetLabel}>Daily budget</Text>
+            <TextInput
+              style={styles.budgetInput}
+              value={dailyInput}
+              onChangeText={setDailyInput}
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={styles.budgetField}>
+            <Text style={styles.budgetLabel}>Monthly budget</Text>
+            <TextInput
+              style={styles.budgetInput}
+              value={monthlyInput}
+              onChangeText={setMonthlyInput}
+              keyboardType="number-pad"
+            />
+          </View>
+        </View>
+        <Pressable
+          style={({ pressed }) => [styles.primaryButton, pressed && { opacity: 0.8 }]}
+          onPress={handleSaveBudgets}
+        >
+          <Text style={styles.primaryButtonText}>Save Budgets</Text>
+        </Pressable>
+      </View>
+
+      {/* Sorting Rules */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🗺️ Sorting Rules</Text>
+        <Text style={styles.sectionDesc}>
+          Categories, disposal tips and points follow these rules.
+        </Text>
+        {renderRulesetOption(
+          null,
+          'Automatic (by location)',
+          rulesetChoice === null ? `Now: ${getActiveRuleset().name}` : "Your city's rules, or the default ones"
+        )}
+        {listRulesets().map((r) =>
+          renderRulesetOption(
+            r.id,
+            r.name,
+            r.municipalities.length > 0 ? r.municipalities.join(', ') : 'Everywhere else'
+          )
+        )}
+      </View>
+
+      {/* Cache & Uploads */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>⚡ Storage & Uploads</Text>
+        <Text style={styles.infoText}>
+          {cacheSize} cached result{cacheSize === 1 ? '' : 's'}
+        </Text>
+        {uploads && uploads.count > 0 && (
+          <Text style={styles.infoText}>
+            Last {uploads.count} uploads: {Math.round(uploads.avgPayloadBytes / 1024)} KB,{' '}
+            {uploads.avgPreprocessMs} ms preparing, {uploads.avgRequestMs} ms waiting on average
+          </Text>
+        )}
+        {photoUsage && (
+          <Text style={styles.infoText}>
+            📷 Report photos: {photoUsage.files} file{photoUsage.files === 1 ? '' : 's'},{' '}
+            {(photoUsage.bytes / (1024 * 1024)).toFixed(1)} MB
+          </Text>
+        )}
+        <Pressable
+          style={({ pressed }) => [
+            styles.secondaryButton,
+            pressed && { opacity: 0.8 },
+            cacheSize === 0 && styles.buttonDisabled,
+          ]}
+          onPress={handleClearCache}
+          disabled={cacheSize === 0}
+        >
+          <Text style={styles.secondaryButtonText}>Clear Cache</Text>
+        </Pressable>
+      </View>
+
+      {/* AI Learning */}
+      <Pressable
+        style={({ pressed }) => [styles.section, styles.linkRow, pressed && { opacity: 0.8 }]}
+        onPress={() => router.push('/classifier-learning')}
+      >
+        <Text style={styles.sectionTitle}>🧠 AI Learning</Text>
+        <Text style={styles.linkArrow}>›</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  sectionDesc: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 4,
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  usageRow: {
+    marginBottom: 14,
+  },
+  usageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  usageTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  usageValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1a1a1a',
+  },
+  usageBarBg: {
+    height: 8,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  usageBarFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  usageReset: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  budgetRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  budgetField: {
+    flex: 1,
+  },
+  budgetLabel: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
+  budgetInput: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  primaryButton: {
+    backgroundColor: '#2E7D32',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+  secondaryButton: {
+    backgroundColor: '#C62828',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  buttonDisabled: {
+    backgroundColor: '#E0E0E0',
+  },
+  secondaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 15,
+    color: '#333',
+  },
+  optionTitleSelected: {
+    fontWeight: '700',
+    color: '#2E7D32',
+  },
+  optionDetail: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  optionCheck: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2E7D32',
+    width: 24,
+    textAlign: 'right',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  linkArrow: {
+    fontSize: 24,
+    color: '#bbb',
+  },
+});
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -9,34 +9,126 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { Image } from 'expo-image';
-import { type ClassificationResult } from '@/services/waste-classifier';
+import {
+  getCandidateConfidence,
+  getClassifierProvider,
+  getDisposalInfo,
+  getSubcategories,
+  getWasteCategories,
+  ON_DEVICE_MODEL,
+  type ClassificationResult,
+  type DetectedItem,
+  type WasteCategory,
+} from '@/services/waste-classifier';
 import { type GeoLocation } from '@/services/complaint-store';
+import {
+  estimateVolume,
+  VOLUME_OPTIONS,
+  WASTE_VOLUMES,
+  type WasteVolume,
+} from '@/services/waste-volume';
 import { formatCoordinates } from '@/services/location-service';
+import {
+  assessHazard,
+  getEmergencyGuidance,
+  HAZARD_QUESTIONS,
+  needsHazardAssessment,
+  SEVERITY_LEVELS,
+  type HazardFlag,
+} from '@/services/hazard-severity';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const IMAGE_WIDTH = SCREEN_WIDTH;
+const IMAGE_HEIGHT = SCREEN_WIDTH * 0.75;
+
+/**
+ * Project a normalised box onto the image container, accounting for the
+ * cropping done by `contentFit="cover"`.
+ */
+function boxToLayout(
+  box: DetectedItem['box'],
+  imageSize: { width: number; height: number },
+) {
+  const scale = Math.max(IMAGE_WIDTH / imageSize.width, IMAGE_HEIGHT / imageSize.height);
+  const offsetX = (IMAGE_WIDTH - imageSize.width * scale) / 2;
+  const offsetY = (IMAGE_HEIGHT - imageSize.height * scale) / 2;
+  return {
+    left: offsetX + box.x * imageSize.width * scale,
+    top: offsetY + box.y * imageSize.height * scale,
+    width: box.width * imageSize.width * scale,
+    height: box.height * imageSize.height * scale,
+  };
+}
 
 interface ClassificationResultCardProps {
   result: ClassificationResult;
+  /** Category currently chosen for the report — the AI pick unless the user changed it */
+  selectedCategory: WasteCategory;
+  onSelectCategory: (category: WasteCategory) => void;
+  /** Sub-category chosen within `selectedCategory`, if any */
+  selectedSubcategory: string | undefined;
+  onSelectSubcategory: (subcategory: string | undefined) => void;
+  /** Follow-up answers for hazardous and e-waste reports */
+  hazardFlags: HazardFlag[];
+  onToggleHazardFlag: (flag: HazardFlag) => void;
+  /** How much waste the report covers, pre-set from the detected items */
+  volume: WasteVolume;
+  onSelectVolume: (volume: WasteVolume) => void;
   imageUri: string;
   location: GeoLocation | null;
   onSubmitReport: () => void;
+  /** File a separate report for one detected item (index into `result.items`) */
+  onSubmitItemReport: (index: number) => void;
   onScanAgain: () => void;
   isSubmitting: boolean;
   submitted: boolean;
+  /** Indexes of detected items already filed individually */
+  submittedItemIndexes: number[];
   pointsAwarded: number | null;
 }
 
 export function ClassificationResultCard({
   result,
+  selectedCategory,
+  onSelectCategory,
+  selectedSubcategory,
+  onSelectSubcategory,
+  hazardFlags,
+  onToggleHazardFlag,
+  volume,
+  onSelectVolume,
   imageUri,
   location,
   onSubmitReport,
+  onSubmitItemReport,
   onScanAgain,
   isSubmitting,
   submitted,
+  submittedItemIndexes,
   pointsAwarded,
 }: ClassificationResultCardProps) {
-  const confidencePercent = Math.round(result.confidence * 100);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [showAllCategories, setShowAllCategories] = useState(false);
+  const items = result.items ?? [];
+  const isMultiItem = items.length > 1;
+  const isCorrected = selectedCategory !== result.category;
+  const subcategories = getSubcategories(selectedCategory);
+  const canChangeCategory = !submitted && submittedItemIndexes.length === 0 && !isSubmitting;
+  const alternatives = result.alternatives ?? [{ category: result.category, confidence: result.confidence }];
+  const hazard = needsHazardAssessment(selectedCategory)
+    ? assessHazard(selectedCategory, hazardFlags)
+    : null;
+  const severity = hazard ? SEVERITY_LEVELS[hazard.severity] : null;
+
+  // What the card shows: the AI result, or the static info for the user's pick
+  const shown = isCorrected || selectedSubcategory !== result.subcategory
+    ? {
+        ...getDisposalInfo(selectedCategory, selectedSubcategory),
+        confidence: getCandidateConfidence(result, selectedCategory),
+      }
+    : result;
+
+  const confidencePercent = Math.round(shown.confidence * 100);
   const confidenceColor =
     confidencePercent >= 80
       ? '#4CAF50'
@@ -52,20 +144,72 @@ export function ClassificationResultCard({
     >
       {/* Captured Image */}
       <View style={styles.imageContainer}>
-        <Image source={{ uri: imageUri }} style={styles.capturedImage} contentFit="cover" />
-        <View style={[styles.categoryBadge, { backgroundColor: result.color }]}>
+        <Image
+          source={{ uri: imageUri }}
+          style={styles.capturedImage}
+          contentFit="cover"
+          onLoad={(e) => setImageSize({ width: e.source.width, height: e.source.height })}
+        />
+        {imageSize &&
+          items.map((item, index) => (
+            <View
+              key={`box-${index}`}
+              pointerEvents="none"
+              style={[
+                styles.itemBox,
+                boxToLayout(item.box, imageSize),
+                { borderColor: getDisposalInfo(item.category).color },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.itemBoxLabel,
+                  { backgroundColor: getDisposalInfo(item.category).color },
+                ]}
+              >
+                {index + 1}
+              </Text>
+            </View>
+          ))}
+        <View style={[styles.categoryBadge, { backgroundColor: shown.color }]}>
           <Text style={styles.categoryBadgeText}>
-            {result.icon} {result.label}
+            {shown.icon} {shown.label}
+            {shown.subcategoryLabel ? ` · ${shown.subcategoryLabel}` : ''}
           </Text>
         </View>
       </View>
 
       {/* Classification Result */}
       <View style={styles.resultCard}>
+        {result.degraded && (
+          <View style={styles.degradedBanner}>
+            <Text style={styles.degradedTitle}>⚠️ AI recognition unavailable</Text>
+            <Text style={styles.degradedText}>
+              {result.degraded.message}{' '}
+              {result.provider === 'on-device'
+                ? 'The offline model was used instead.'
+                : result.provider === 'heuristic'
+                  ? "This is only a rough guess from the photo's colours — please check the category."
+                  : 'Please choose the category yourself.'}
+            </Text>
+          </View>
+        )}
+        {result.abstained && (
+          <View style={styles.abstainedBanner}>
+            <Text style={styles.abstainedTitle}>🤔 Not sure what this is</Text>
+            <Text style={styles.abstainedText}>
+              The AI is too unsure of its best guess to trust it. Please choose the category from the
+              matches below.
+            </Text>
+          </View>
+        )}
         <View style={styles.resultHeader}>
-          <Text style={styles.resultIcon}>{result.icon}</Text>
+          <Text style={styles.resultIcon}>{shown.icon}</Text>
           <View style={styles.resultHeaderText}>
-            <Text style={styles.resultTitle}>{result.label}</Text>
+            <Text style={styles.resultTitle}>{shown.label}</Text>
+            {shown.subcategoryLabel && (
+              <Text style={styles.subcategoryText}>{shown.subcategoryLabel}</Text>
+            )}
             <View style={styles.confidenceRow}>
               <View style={styles.confidenceBarBg}>
                 <View
@@ -85,32 +229,250 @@ export function ClassificationResultCard({
           </View>
         </View>
 
-        <Text style={styles.description}>{result.description}</Text>
+        <Text style={styles.description}>{shown.description}</Text>
+
+        {/* Classification Source */}
+        <Text style={styles.sourceText}>
+          {result.provider === 'barcode'
+            ? `🏷️ Looked up from barcode ${result.barcode}`
+            : result.provider === 'on-device'
+              ? `📴 Classified offline by the on-device model (${ON_DEVICE_MODEL.version})`
+              : `🤖 Classified by ${getClassifierProvider(result.provider)?.name ?? 'an unknown source'}`}
+          {result.provider !== 'barcode' &&
+            result.barcode &&
+            ` · barcode ${result.barcode} is not in the product database`}
+          {result.cached && ' · ⚡ from cache'}
+          {!result.cached &&
+            result.upload &&
+            ` · ${Math.round(result.upload.payloadBytes / 1024)} KB in ${(
+              (result.upload.preprocessMs + result.upload.requestMs) /
+              1000
+            ).toFixed(1)} s`}
+        </Text>
+        {(result.brand || result.recyclingCodes) && (
+          <View style={styles.packagingRow}>
+            {result.recyclingCodes && (
+              <Text style={styles.packagingTag}>♻️ {result.recyclingCodes.join(', ')}</Text>
+            )}
+            {result.brand && <Text style={styles.packagingTag}>🏷️ {result.brand}</Text>}
+          </View>
+        )}
+
+        {/* Top Matches & Correction */}
+        <View style={styles.alternativesContainer}>
+          <Text style={styles.alternativesTitle}>🎯 Top Matches</Text>
+          <View style={styles.chipRow}>
+            {alternatives.map((alt) => {
+              const info = getDisposalInfo(alt.category);
+              const selected = alt.category === selectedCategory;
+              return (
+                <Pressable
+                  key={alt.category}
+                  style={[
+                    styles.chip,
+                    selected && { backgroundColor: info.color, borderColor: info.color },
+                  ]}
+                  onPress={() => onSelectCategory(alt.category)}
+                  disabled={!canChangeCategory}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {info.icon} {info.label} · {Math.round(alt.confidence * 100)}%
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {canChangeCategory && (
+            <Pressable onPress={() => setShowAllCategories((v) => !v)}>
+              <Text style={styles.alternativesToggle}>
+                {showAllCategories ? 'Hide categories' : 'Not right? Choose another category'}
+              </Text>
+            </Pressable>
+          )}
+          {canChangeCategory && showAllCategories && (
+            <View style={styles.chipRow}>
+              {getWasteCategories()
+                .filter((c) => !alternatives.some((a) => a.category === c.category))
+                .map((c) => {
+                  const selected = c.category === selectedCategory;
+                  return (
+                    <Pressable
+                      key={c.category}
+                      style={[
+                        styles.chip,
+                        selected && { backgroundColor: c.color, borderColor: c.color },
+                      ]}
+                      onPress={() => onSelectCategory(c.category)}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {c.icon} {c.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+            </View>
+          )}
+          {subcategories.length > 0 && (
+            <>
+              <Text style={styles.alternativesTitle}>🏷️ Type</Text>
+              <View style={styles.chipRow}>
+                {subcategories.map((sub) => {
+                  const selected = sub.id === selectedSubcategory;
+                  return (
+                    <Pressable
+                      key={sub.id}
+                      style={[
+                        styles.chip,
+                        selected && { backgroundColor: shown.color, borderColor: shown.color },
+                      ]}
+                      onPress={() => onSelectSubcategory(selected ? undefined : sub.id)}
+                      disabled={!canChangeCategory}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {sub.recyclable ? '♻️' : '🚫'} {sub.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </>
+          )}
+          {isCorrected && (
+            <Text style={styles.correctionNote}>
+              You changed the category from {result.label}. Your choice will be used for the report.
+            </Text>
+          )}
+        </View>
+
+        {/* Safety Check */}
+        {hazard && severity && (
+          <View style={styles.hazardContainer}>
+            <Text style={styles.alternativesTitle}>⚠️ Safety Check</Text>
+            <View style={styles.chipRow}>
+              {HAZARD_QUESTIONS.map((q) => {
+                const selected = hazardFlags.includes(q.flag);
+                return (
+                  <Pressable
+                    key={q.flag}
+                    style={[styles.hazardQuestion, selected && styles.hazardQuestionSelected]}
+                    onPress={() => onToggleHazardFlag(q.flag)}
+                    disabled={submitted || isSubmitting}
+                  >
+                    <Text style={styles.hazardQuestionText}>
+                      {selected ? '☑️' : '⬜'} {q.icon} {q.question}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={[styles.severityText, { color: severity.color }]}>
+              {severity.icon} {severity.label} severity{hazard.urgent ? ' · reported as urgent' : ''}
+            </Text>
+            {hazard.urgent && (
+              <View style={styles.emergencyBox}>
+                <Text style={styles.emergencyTitle}>🚨 Emergency Guidance</Text>
+                {getEmergencyGuidance(hazard).map((line) => (
+                  <Text key={line} style={styles.emergencyText}>
+                    • {line}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Volume */}
+        <View style={styles.volumeContainer}>
+          <Text style={styles.alternativesTitle}>📦 How Much Waste?</Text>
+          <View style={styles.chipRow}>
+            {WASTE_VOLUMES.map((v) => {
+              const option = VOLUME_OPTIONS[v];
+              const selected = v === volume;
+              return (
+                <Pressable
+                  key={v}
+                  style={[styles.chip, selected && styles.volumeChipSelected]}
+                  onPress={() => onSelectVolume(v)}
+                  disabled={!canChangeCategory}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option.icon} {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <Text style={styles.volumeHint}>
+            {VOLUME_OPTIONS[volume].description}
+            {volume === estimateVolume(result) ? ' · estimated from the photo' : ''} · crew needs:{' '}
+            {VOLUME_OPTIONS[volume].vehicle}
+          </Text>
+        </View>
+
+        {/* Detected Items */}
+        {isMultiItem && (
+          <View style={styles.itemsContainer}>
+            <Text style={styles.itemsTitle}>🔍 {items.length} Items Detected</Text>
+            {items.map((item, index) => {
+              const info = getDisposalInfo(item.category, item.subcategory);
+              const itemSubmitted = submittedItemIndexes.includes(index);
+              return (
+                <View key={`item-${index}`} style={styles.itemRow}>
+                  <View style={[styles.itemIndex, { backgroundColor: info.color }]}>
+                    <Text style={styles.itemIndexText}>{index + 1}</Text>
+                  </View>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemLabel}>
+                      {info.icon} {item.label}
+                    </Text>
+                    <Text style={styles.itemMeta}>
+                      {info.label}
+                      {info.subcategoryLabel ? ` (${info.subcategoryLabel})` : ''} ·{' '}
+                      {Math.round(item.confidence * 100)}%
+                    </Text>
+                  </View>
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.itemReportButton,
+                      pressed && styles.submitButtonPressed,
+                      (itemSubmitted || submitted || !location || isSubmitting) &&
+                        styles.submitButtonDisabled,
+                    ]}
+                    onPress={() => onSubmitItemReport(index)}
+                    disabled={itemSubmitted || submitted || !location || isSubmitting}
+                  >
+                    <Text style={styles.itemReportText}>{itemSubmitted ? '✓ Filed' : 'Report'}</Text>
+                  </Pressable>
+                </View>
+              );
+            })}
+          </View>
+        )}
 
         {/* Recyclable Badge */}
         <View
           style={[
             styles.recyclableBadge,
             {
-              backgroundColor: result.recyclable ? '#E8F5E9' : '#FFF3E0',
-              borderColor: result.recyclable ? '#4CAF50' : '#FF9800',
+              backgroundColor: shown.recyclable ? '#E8F5E9' : '#FFF3E0',
+              borderColor: shown.recyclable ? '#4CAF50' : '#FF9800',
             },
           ]}
         >
           <Text
             style={[
               styles.recyclableText,
-              { color: result.recyclable ? '#2E7D32' : '#E65100' },
+              { color: shown.recyclable ? '#2E7D32' : '#E65100' },
             ]}
           >
-            {result.recyclable ? '♻️ Recyclable' : '🚫 Not Recyclable'}
+            {shown.recyclable ? '♻️ Recyclable' : '🚫 Not Recyclable'}
           </Text>
         </View>
 
         {/* Disposal Tip */}
         <View style={styles.tipContainer}>
           <Text style={styles.tipTitle}>💡 Disposal Tip</Text>
-          <Text style={styles.tipText}>{result.disposalTip}</Text>
+          <Text style={styles.tipText}>{shown.disposalTip}</Text>
         </View>
 
         {/* GPS Location */}
@@ -148,16 +510,17 @@ export function ClassificationResultCard({
             style={({ pressed }) => [
               styles.submitButton,
               pressed && styles.submitButtonPressed,
-              (!location || isSubmitting) && styles.submitButtonDisabled,
+              (!location || isSubmitting || submittedItemIndexes.length > 0) &&
+                styles.submitButtonDisabled,
             ]}
             onPress={onSubmitReport}
-            disabled={!location || isSubmitting}
+            disabled={!location || isSubmitting || submittedItemIndexes.length > 0}
           >
             {isSubmitting ? (
               <ActivityIndicator color="#fff" size="small" />
             ) : (
               <Text style={styles.submitButtonText}>
-                📋 Submit Complaint
+                {isMultiItem ? '📋 Submit Mixed-Waste Complaint' : '📋 Submit Complaint'}
               </Text>
             )}
           </Pressable>
@@ -195,14 +558,31 @@ const styles = StyleSheet.create({
     paddingBottom: 40,
   },
   imageContainer: {
-    width: SCREEN_WIDTH,
-    height: SCREEN_WIDTH * 0.75,
+    width: IMAGE_WIDTH,
+    height: IMAGE_HEIGHT,
     position: 'relative',
+    overflow: 'hidden',
   },
   capturedImage: {
     width: '100%',
     height: '100%',
   },
+  itemBox: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: 4,
+  },
+  itemBoxLabel: {
+    position: 'absolute',
+    top: -1,
+    left: -1,
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderBottomRightRadius: 4,
+  },
   categoryBadge: {
     position: 'absolute',
     bottom: 16,
@@ -246,6 +626,13 @@ const styles = StyleSheet.create({
     color: '#1a1a1a',
     marginBottom: 8,
   },
+  subcategoryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: -4,
+    marginBottom: 8,
+  },
   confidenceRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -274,6 +661,211 @@ const styles = StyleSheet.create({
     color: '#555',
     marginBottom: 16,
   },
+  packagingRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  packagingTag: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#555',
+    backgroundColor: '#f0f0f0',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  degradedBanner: {
+    backgroundColor: '#FFF3E0',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  degradedTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#E65100',
+    marginBottom: 4,
+  },
+  degradedText: {
+    fontSize: 13,
+    color: '#6D4C41',
+    lineHeight: 18,
+  },
+  volumeContainer: {
+    marginBottom: 16,
+    gap: 10,
+  },
+  volumeChipSelected: {
+    backgroundColor: '#37474F',
+    borderColor: '#37474F',
+  },
+  volumeHint: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+  },
+  hazardContainer: {
+    marginBottom: 16,
+    gap: 10,
+  },
+  hazardQuestion: {
+    width: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fafafa',
+  },
+  hazardQuestionSelected: {
+    borderColor: '#E65100',
+    backgroundColor: '#FFF3E0',
+  },
+  hazardQuestionText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  severityText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  emergencyBox: {
+    backgroundColor: '#FFEBEE',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  emergencyTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#B71C1C',
+    marginBottom: 2,
+  },
+  emergencyText: {
+    fontSize: 13,
+    color: '#5D4037',
+    lineHeight: 18,
+  },
+  abstainedBanner: {
+    backgroundColor: '#E3F2FD',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  abstainedTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1565C0',
+    marginBottom: 4,
+  },
+  abstainedText: {
+    fontSize: 13,
+    color: '#455A64',
+    lineHeight: 18,
+  },
+  sourceText: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  alternativesContainer: {
+    marginBottom: 16,
+    gap: 10,
+  },
+  alternativesTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    backgroundColor: '#fff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#555',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  alternativesToggle: {
+    fontSize: 14,
+    color: '#1565C0',
+    fontWeight: '600',
+  },
+  correctionNote: {
+    fontSize: 13,
+    color: '#E65100',
+    lineHeight: 18,
+  },
+  itemsContainer: {
+    backgroundColor: '#F5F5F5',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 10,
+  },
+  itemsTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#333',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  itemIndex: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  itemIndexText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  itemReportButton: {
+    backgroundColor: '#1565C0',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  itemReportText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   recyclableBadge: {
     alignSelf: 'flex-start',
     paddingHorizontal: 16,
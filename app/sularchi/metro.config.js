@@ -0,0 +1,9 @@
+// Learn more https://docs.expo.dev/guides/customizing-metro
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Lets a .tflite model for the on-device classifier be bundled as an asset
+config.resolver.assetExts.push('tflite');
+
+module.exports = config;
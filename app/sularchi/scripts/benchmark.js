@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+
+/**
+ * Classification benchmark.
+ *
+ * Replays recorded Google Cloud Vision responses through the label matcher
+ * (`mapLabelsToCategory`) and the full `classifyWaste` pipeline, without
+ * network access, and prints accuracy, per-category precision and recall and
+ * a confusion matrix for each.
+ *
+ * Usage: npm run benchmark -- [fixtures-dir] [--min-accuracy 0.9] [--verbose]
+ *
+ * The fixtures directory (see vision-fixtures.js for its layout) defaults to
+ * fixtures/vision, of which only the fixtures held out from the calibration
+ * fit are scored; every fixture of another directory is.  With
+ * --min-accuracy the script exits non-zero when the pipeline accuracy drops
+ * below the threshold.
+ */
+
+const path = require("path");
+const { registerServices, createAsyncStorage, createImageModules } = require("./load-services");
+const {
+  defaultFixturesDir,
+  loadFixtures,
+  splitFixtures,
+  recordedLabels,
+  replayVision,
+} = require("./vision-fixtures");
+
+// ─── Arguments ───────────────────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+const verbose = args.includes("--verbose");
+const minAccuracyIndex = args.indexOf("--min-accuracy");
+const minAccuracy = minAccuracyIndex >= 0 ? Number(args[minAccuracyIndex + 1]) : null;
+const fixturesDir = path.resolve(
+  args.find((arg, i) => !arg.startsWith("--") && i !== minAccuracyIndex + 1) ?? defaultFixturesDir
+);
+
+// Only the Vision provider, with a placeholder key: requests never leave the process
+process.env.EXPO_PUBLIC_GOOGLE_VISION_API_KEY = "benchmark";
+process.env.EXPO_PUBLIC_CLASSIFIER_CHAIN = "google-vision";
+
+// ─── Node Stand-ins for Native Modules ───────────────────────────────────────
+
+const { storage, module: asyncStorage } = createAsyncStorage();
+
+registerServices({
+  "@react-native-async-storage/async-storage": asyncStorage,
+  ...createImageModules(),
+});
+
+// Vision answers with the recording of the fixture being classified
+const replay = replayVision();
+
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+
+function printReport(title, rows, categories) {
+  const correct = rows.filter((r) => r.predicted === r.expected).length;
+  const percent = (n) => (Number.isNaN(n) ? "    —" : `${(n * 100).toFixed(0).padStart(4)}%`);
+  const width = Math.max(...categories.map((c) => c.length)) + 2;
+
+  console.log(`\n━━ ${title} ━━`);
+  console.log(`Accuracy: ${correct}/${rows.length} (${percent(correct / rows.length).trim()})\n`);
+
+  console.log(`${"category".padEnd(width)}precision  recall  support`);
+  for (const category of categories) {
+    const tp = rows.filter((r) => r.expected === category && r.predicted === category).length;
+    const predicted = rows.filter((r) => r.predicted === category).length;
+    const support = rows.filter((r) => r.expected === category).length;
+    if (predicted === 0 && support === 0) continue;
+    console.log(
+      `${category.padEnd(width)}${percent(tp / predicted).padStart(9)}  ${percent(tp / support).padStart(6)}  ${String(support).padStart(7)}`
+    );
+  }
+
+  // Rows are the expected category, columns the predicted one
+  const used = categories.filter((c) => rows.some((r) => r.expected === c || r.predicted === c));
+  const cell = Math.max(...used.map((c) => c.length)) + 1;
+  console.log(`\nConfusion matrix (rows: expected, columns: predicted)`);
+  console.log(" ".repeat(width) + used.map((c) => c.padStart(cell)).join(""));
+  for (const expected of used) {
+    const counts = used.map((predicted) => {
+      const n = rows.filter((r) => r.expected === expected && r.predicted === predicted).length;
+      return (n === 0 ? "·" : String(n)).padStart(cell);
+    });
+    console.log(expected.padEnd(width) + counts.join(""));
+  }
+
+  const misses = rows.filter((r) => r.predicted !== r.expected);
+  if (misses.length > 0) {
+    console.log(`\nMisclassified:`);
+    for (const miss of misses) {
+      console.log(`  ${miss.name}: expected ${miss.expected}, got ${miss.predicted} (${miss.confidence})`);
+    }
+  }
+  return correct / rows.length;
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const { mapLabelsToCategory } = require("../services/label-matcher.ts");
+  const { classifyWaste, getWasteCategories } = require("../services/waste-classifier.ts");
+
+  const all = loadFixtures(fixturesDir);
+  const fixtures = fixturesDir === defaultFixturesDir ? splitFixtures(all).heldOut : all;
+  const categories = getWasteCategories().map((c) => c.category);
+
+  const warn = console.warn;
+  let warnings = 0;
+  if (!verbose) console.warn = () => void warnings++;
+
+  const matcherRows = [];
+  const pipelineRows = [];
+  for (const fixture of fixtures) {
+    const matched = mapLabelsToCategory(recordedLabels(fixture.recording));
+    matcherRows.push({ ...fixture, predicted: matched.category, confidence: matched.confidence });
+
+    // Every fixture starts from empty storage: no cache hits, budgets or learned weights
+    storage.clear();
+    replay.current = fixture.recording;
+    const result = await classifyWaste(`file://${fixture.image}`);
+    pipelineRows.push({ ...fixture, predicted: result.category, confidence: result.confidence });
+  }
+  console.warn = warn;
+
+  const skipped = all.length - fixtures.length;
+  console.log(
+    `${fixtures.length} fixtures from ${path.relative(process.cwd(), fixturesDir) || "."}` +
+      (skipped > 0 ? ` (${skipped} more are the calibration's fitting data)` : "")
+  );
+  printReport("mapLabelsToCategory", matcherRows, categories);
+  const accuracy = printReport("classifyWaste (calibrated, with abstain)", pipelineRows, categories);
+  if (warnings > 0) console.log(`\n${warnings} warnings from the pipeline (run with --verbose to see them)`);
+
+  if (minAccuracy !== null && accuracy < minAccuracy) {
+    console.error(`\n❌ Pipeline accuracy ${(accuracy * 100).toFixed(1)}% is below ${minAccuracy * 100}%`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ Benchmark failed: ${error.message}`);
+  process.exitCode = 1;
+});
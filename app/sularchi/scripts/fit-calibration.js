@@ -0,0 +1,208 @@
+#!/usr/bin/env node
+
+/**
+ * Calibration fit.
+ *
+ * Fits a confidence curve (`fitCalibrationCurve`) and an abstain threshold
+ * (`fitAbstainThreshold`) for every classifier provider on the fitting half
+ * of fixtures/vision, and writes them to data/calibration.json.  The other
+ * half is held out for `npm run benchmark`.
+ *
+ *   google-vision  the provider replaying each recording, every ranked
+ *                  candidate, plus fixtures/label-sets.json
+ *   vision-proxy   the same curve: the proxy returns Vision's labels
+ *   heuristic      the provider run on each fixture photo
+ *   on-device,     replayed from `<name>.on-device.json` (the model's scores,
+ *   custom-model   in ON_DEVICE_MODEL.labels order) and `<name>.custom-model.json`
+ *                  (the endpoint's response) recordings, where present
+ *
+ * A provider without any samples is left out of the table, so it keeps its
+ * raw confidence and the table-wide abstain threshold until it is fitted.
+ *
+ * Usage: npm run fit-calibration -- [--precision 0.8] [--dry-run]
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { registerServices, createAsyncStorage, createImageModules } = require("./load-services");
+const { defaultFixturesDir, loadFixtures, splitFixtures, recordedLabels, replayVision } = require("./vision-fixtures");
+
+const root = path.resolve(__dirname, "..");
+const calibrationFile = path.join(root, "data", "calibration.json");
+const labelSetsFile = path.join(root, "fixtures", "label-sets.json");
+
+// ─── Arguments ───────────────────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const precisionIndex = args.indexOf("--precision");
+/** Share of the results kept above the threshold that must be right */
+const precision = precisionIndex >= 0 ? Number(args[precisionIndex + 1]) : 0.8;
+
+const CUSTOM_MODEL_URL = "https://custom-model.invalid/classify";
+process.env.EXPO_PUBLIC_GOOGLE_VISION_API_KEY = "fit-calibration";
+process.env.EXPO_PUBLIC_CLASSIFIER_MODEL_URL = CUSTOM_MODEL_URL;
+process.env.EXPO_PUBLIC_ON_DEVICE_MODEL_URL = "file:///fit-calibration/model.tflite";
+
+// ─── Node Stand-ins for Native Modules ───────────────────────────────────────
+
+const replay = replayVision();
+const recordings = { "on-device": null, "custom-model": null };
+
+const replayVisionFetch = global.fetch;
+global.fetch = async (url, init) => {
+  if (url === CUSTOM_MODEL_URL && recordings["custom-model"]) {
+    return new Response(JSON.stringify(recordings["custom-model"]), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  return replayVisionFetch(url, init);
+};
+
+const fakeModel = {
+  outputs: [{ dataType: "float32" }],
+  run: async () => [Float32Array.from(recordings["on-device"])],
+};
+
+registerServices({
+  "@react-native-async-storage/async-storage": createAsyncStorage().module,
+  "react-native-fast-tflite": { loadTensorflowModel: async () => fakeModel },
+  ...createImageModules(),
+});
+
+// ─── Samples ─────────────────────────────────────────────────────────────────
+
+function readRecording(fixture, provider) {
+  const file = path.join(path.dirname(fixture.image), `${fixture.name}.${provider}.json`);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+}
+
+/**
+ * Raw confidences of a result's candidates, each marked right or wrong, and
+ * of its top guess alone.  A result of `unknown` claims nothing.
+ */
+function toSamples(result, expected) {
+  if (result.category === "unknown") return { candidates: [], top: [] };
+  const ranked = result.alternatives ?? [{ category: result.category, confidence: result.confidence }];
+  return {
+    candidates: ranked.map((a) => ({ confidence: a.confidence, correct: a.category === expected })),
+    top: [{ confidence: result.confidence, correct: result.category === expected }],
+  };
+}
+
+async function collectSamples(fixtures) {
+  const { getClassifierProvider } = require("../services/waste-classifier.ts");
+  const { mapLabelsToCategory } = require("../services/label-matcher.ts");
+
+  const samples = {};
+  const add = (provider, { candidates, top }, isFixture = true) => {
+    samples[provider] ??= { candidates: [], top: [], fixtures: 0 };
+    samples[provider].candidates.push(...candidates);
+    samples[provider].top.push(...top);
+    if (isFixture) samples[provider].fixtures++;
+  };
+
+  for (const labelSet of JSON.parse(fs.readFileSync(labelSetsFile, "utf8"))) {
+    add("google-vision", toSamples(mapLabelsToCategory(labelSet.labels), labelSet.expected), false);
+  }
+
+  for (const fixture of fixtures) {
+    const uri = `file://${fixture.image}`;
+    replay.current = fixture.recording;
+    if (recordedLabels(fixture.recording).length > 0) {
+      add("google-vision", toSamples(await getClassifierProvider("google-vision").classify(uri), fixture.expected));
+    }
+    add("heuristic", toSamples(await getClassifierProvider("heuristic").classify(uri), fixture.expected));
+
+    for (const provider of Object.keys(recordings)) {
+      recordings[provider] = readRecording(fixture, provider);
+      if (recordings[provider]) {
+        add(provider, toSamples(await getClassifierProvider(provider).classify(uri), fixture.expected));
+      }
+    }
+  }
+  return samples;
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const { fitCalibrationCurve, fitAbstainThreshold, applyCalibrationCurve } = require(
+    "../services/confidence-calibration.ts"
+  );
+  const { roundConfidence } = require("../services/label-matcher.ts");
+
+  const { fitting } = splitFixtures(loadFixtures(defaultFixturesDir));
+  const warn = console.warn;
+  console.warn = () => {};
+  const samples = await collectSamples(fitting);
+  console.warn = warn;
+
+  const fixturesDir = path.relative(root, defaultFixturesDir);
+  const fit = (provider, fittedOn) => {
+    const { candidates = [], top = [] } = samples[provider] ?? {};
+    if (candidates.length === 0) return undefined;
+    const points = fitCalibrationCurve(candidates);
+    const calibrated = top.map((s) => ({
+      ...s,
+      confidence: roundConfidence(applyCalibrationCurve(points, s.confidence)),
+    }));
+    return {
+      points,
+      fittedOn,
+      samples: candidates.length,
+      abstainThreshold: fitAbstainThreshold(calibrated, precision),
+    };
+  };
+
+  const fittingHalf = (provider) =>
+    `${samples[provider]?.fixtures ?? 0} fitting fixtures of ${fixturesDir} (every ranked candidate)`;
+  const vision = fit("google-vision", `fixtures/label-sets.json and ${fittingHalf("google-vision")}`);
+
+  const previous = JSON.parse(fs.readFileSync(calibrationFile, "utf8"));
+  const now = new Date();
+  const month = `${now.getFullYear()}.${now.getMonth() + 1}`;
+  const [prevYear, prevMonth, prevBuild] = previous.version.split(".");
+  const version = `${prevYear}.${prevMonth}` === month ? `${month}.${Number(prevBuild) + 1}` : `${month}.0`;
+
+  const table = {
+    version,
+    abstainThreshold: previous.abstainThreshold,
+    providers: {
+      "google-vision": vision,
+      "vision-proxy": vision,
+      heuristic: fit("heuristic", fittingHalf("heuristic")),
+      "on-device": fit("on-device", fittingHalf("on-device")),
+      "custom-model": fit("custom-model", fittingHalf("custom-model")),
+    },
+  };
+
+  for (const [provider, curve] of Object.entries(table.providers)) {
+    if (!curve) {
+      console.log(`${provider.padEnd(14)}   0 samples  left out (record ${fixturesDir}/<name>.${provider}.json)`);
+      continue;
+    }
+    const samplesColumn = String(curve.samples).padStart(4);
+    const threshold = curve.abstainThreshold ?? `${table.abstainThreshold} (table-wide)`;
+    console.log(`${provider.padEnd(14)}${samplesColumn} samples  abstain below ${threshold}`);
+  }
+  if (dryRun) return;
+  fs.writeFileSync(calibrationFile, serialize(table));
+  console.log(`\nWrote ${path.relative(process.cwd(), calibrationFile)} (${version})`);
+}
+
+/** Two-space JSON with each curve's knots kept on one line */
+function serialize(table) {
+  const json = JSON.stringify(table, null, 2)
+    .replace(/\[\s*(-?[\d.]+),\s*(-?[\d.]+)\s*\]/g, "[$1, $2]")
+    .replace(/"points": \[\s*((?:\[[^\]]*\],?\s*)*)\]/g, (_, knots) => {
+      return `"points": [${knots.trim().replace(/\],\s+\[/g, "], [")}]`;
+    });
+  return `${json}\n`;
+}
+
+main().catch((error) => {
+  console.error(`❌ Calibration fit failed: ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,271 @@
+/**
+ * Loads the app's TypeScript services in Node for the scripts in this
+ * directory: `.ts` files are transpiled on require, and native modules are
+ * replaced by the given stand-ins.
+ *
+ *   const { registerServices } = require("./load-services");
+ *   registerServices({ "expo-sqlite": fakeSqlite });
+ *   const store = require("../services/complaint-store.ts");
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const Module = require("module");
+const jpeg = require("jpeg-js");
+const ts = require("typescript");
+
+let stubs = {};
+let registered = false;
+
+/**
+ * Resolve the modules named in `moduleStubs` to their stand-ins.  Later
+ * calls add to (and override) the earlier stand-ins.
+ */
+function registerServices(moduleStubs = {}) {
+  stubs = { ...stubs, ...moduleStubs };
+  if (registered) return;
+  registered = true;
+
+  const originalLoad = Module._load;
+  Module._load = function (request, parent, isMain) {
+    if (Object.prototype.hasOwnProperty.call(stubs, request)) return stubs[request];
+    return originalLoad.call(this, request, parent, isMain);
+  };
+
+  require.extensions[".ts"] = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+        resolveJsonModule: true,
+      },
+    });
+    module._compile(outputText, filename);
+  };
+}
+
+/** AsyncStorage backed by a Map, which `clear()` empties between cases */
+function createAsyncStorage() {
+  const storage = new Map();
+  return {
+    storage,
+    module: {
+      __esModule: true,
+      default: {
+        getItem: async (key) => (storage.has(key) ? storage.get(key) : null),
+        setItem: async (key, value) => void storage.set(key, String(value)),
+        removeItem: async (key) => void storage.delete(key),
+        multiRemove: async (keys) => keys.forEach((key) => storage.delete(key)),
+      },
+    },
+  };
+}
+
+/**
+ * Stand-ins for the image and file modules that work on `file://` JPEGs:
+ * nearest-neighbour resize and re-encode, enough for hashing, pixel
+ * features and uploads.  `Paths.document` is `documentDir`.
+ */
+function createImageModules({ documentDir = path.join(os.tmpdir(), `sularchi-script-${process.pid}`) } = {}) {
+  const toPath = (uri) => uri.replace(/^file:\/\//, "");
+  /** Join a `File`/`Directory` constructor's parts: URIs, names and directories */
+  const toUri = (...parts) => `file://${path.join(...parts.map((p) => toPath(typeof p === "string" ? p : p.uri)))}`;
+  const decodeImage = (uri) => jpeg.decode(fs.readFileSync(toPath(uri)), { useTArray: true });
+  let tempCounter = 0;
+
+  async function manipulateAsync(uri, actions = [], options = {}) {
+    let image = decodeImage(uri);
+    for (const action of actions) {
+      if (!action.resize) continue;
+      const { width, height } = action.resize;
+      const w = width ?? Math.round((image.width * height) / image.height);
+      const h = height ?? Math.round((image.height * width) / image.width);
+      const data = new Uint8Array(w * h * 4);
+      for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+          const from = (Math.floor((y * image.height) / h) * image.width + Math.floor((x * image.width) / w)) * 4;
+          data.set(image.data.subarray(from, from + 4), (y * w + x) * 4);
+        }
+      }
+      image = { data, width: w, height: h };
+    }
+    const quality = Math.round((options.compress ?? 1) * 100);
+    const out = path.join(os.tmpdir(), `sularchi-script-${process.pid}-${tempCounter++}.jpg`);
+    fs.writeFileSync(out, jpeg.encode(image, quality).data);
+    return { uri: `file://${out}`, width: image.width, height: image.height };
+  }
+
+  class ExpoFile {
+    constructor(...parts) {
+      this.uri = toUri(...parts);
+    }
+    get exists() {
+      return fs.existsSync(toPath(this.uri));
+    }
+    get size() {
+      return fs.statSync(toPath(this.uri)).size;
+    }
+    get modificationTime() {
+      return fs.statSync(toPath(this.uri)).mtimeMs;
+    }
+    async bytes() {
+      return new Uint8Array(fs.readFileSync(toPath(this.uri)));
+    }
+    async base64() {
+      return fs.readFileSync(toPath(this.uri)).toString("base64");
+    }
+    copy(destination) {
+      fs.copyFileSync(toPath(this.uri), toPath(destination.uri));
+    }
+    move(destination) {
+      fs.renameSync(toPath(this.uri), toPath(destination.uri));
+      this.uri = destination.uri;
+    }
+    delete() {
+      fs.rmSync(toPath(this.uri), { force: true });
+    }
+  }
+
+  class Directory {
+    constructor(...parts) {
+      this.uri = toUri(...parts);
+    }
+    get exists() {
+      return fs.existsSync(toPath(this.uri));
+    }
+    create() {
+      fs.mkdirSync(toPath(this.uri), { recursive: true });
+    }
+    list() {
+      return fs.readdirSync(toPath(this.uri), { withFileTypes: true }).map((entry) =>
+        entry.isDirectory() ? new Directory(this, entry.name) : new ExpoFile(this, entry.name)
+      );
+    }
+  }
+
+  return {
+    "expo-image-manipulator": { manipulateAsync, SaveFormat: { JPEG: "jpeg", PNG: "png" } },
+    "expo-file-system": { File: ExpoFile, Directory, Paths: { document: new Directory(documentDir) } },
+    "expo-crypto": {
+      CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+      digest: async (algorithm, data) => {
+        const hash = crypto.createHash(algorithm.replace("-", "").toLowerCase()).update(data).digest();
+        return hash.buffer.slice(hash.byteOffset, hash.byteOffset + hash.length);
+      },
+    },
+    "react-native": {
+      Platform: { OS: "node" },
+      Image: {
+        getSize: async (uri) => {
+          const { width, height } = decodeImage(uri);
+          return { width, height };
+        },
+      },
+    },
+  };
+}
+
+/**
+ * expo-sqlite backed by an in-memory sql.js database, opened with
+ * `await createSqlite()`.  Every call yields to the event loop first, as the
+ * native module does, so concurrent callers really interleave.  An exclusive
+ * transaction commits when its task resolves and rolls back when it throws;
+ * starting one while another is open, or writing outside it meanwhile,
+ * fails with "database is locked" instead of waiting, which makes
+ * unserialized writes visible.  `failOn(pattern)` makes the next statement
+ * matching `pattern` throw.
+ */
+async function createSqlite() {
+  const initSqlJs = require("sql.js");
+  const SQL = await initSqlJs();
+  const databases = new Map();
+  const faults = [];
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+  /** Parameters come as arguments or one array; sql.js rejects undefined */
+  const bindable = (params) =>
+    (params.length === 1 && Array.isArray(params[0]) ? params[0] : params).map((p) => p ?? null);
+  const isRead = (source) => /^\s*(SELECT|PRAGMA \w+\s*$)/i.test(source);
+
+  function open(name) {
+    const raw = new SQL.Database();
+    let inTransaction = false;
+
+    const connection = (isTransaction) => {
+      const before = async (source) => {
+        await tick();
+        if (inTransaction && !isTransaction && !isRead(source)) throw new Error("database is locked");
+        const fault = faults.findIndex((pattern) => pattern.test(source));
+        if (fault >= 0) {
+          faults.splice(fault, 1);
+          throw new Error(`Injected failure: ${source.trim().split("\n")[0]}`);
+        }
+      };
+      const all = (source, params) => {
+        const statement = raw.prepare(source);
+        try {
+          statement.bind(bindable(params));
+          const rows = [];
+          while (statement.step()) rows.push(statement.getAsObject());
+          return rows;
+        } finally {
+          statement.free();
+        }
+      };
+
+      return {
+        async execAsync(source) {
+          await before(source);
+          raw.exec(source);
+        },
+        async runAsync(source, ...params) {
+          await before(source);
+          raw.run(source, bindable(params));
+          const changes = raw.getRowsModified();
+          const [[lastInsertRowId]] = raw.exec("SELECT last_insert_rowid()")[0].values;
+          return { changes, lastInsertRowId };
+        },
+        async getAllAsync(source, ...params) {
+          await before(source);
+          return all(source, params);
+        },
+        async getFirstAsync(source, ...params) {
+          await before(source);
+          return all(source, params)[0] ?? null;
+        },
+        async withExclusiveTransactionAsync(task) {
+          await tick();
+          if (inTransaction) throw new Error("database is locked");
+          inTransaction = true;
+          raw.exec("BEGIN EXCLUSIVE");
+          try {
+            await task(connection(true));
+            raw.exec("COMMIT");
+          } catch (error) {
+            raw.exec("ROLLBACK");
+            throw error;
+          } finally {
+            inTransaction = false;
+          }
+        },
+      };
+    };
+
+    const db = connection(false);
+    databases.set(name, db);
+    return db;
+  }
+
+  return {
+    failOn: (pattern) => faults.push(pattern),
+    module: {
+      openDatabaseAsync: async (name) => databases.get(name) ?? open(name),
+    },
+  };
+}
+
+module.exports = { registerServices, createAsyncStorage, createImageModules, createSqlite };
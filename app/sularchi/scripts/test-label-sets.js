@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+/**
+ * Label matcher fixture table.
+ *
+ * Feeds every label set in fixtures/label-sets.json through
+ * `mapLabelsToCategory` and `matchSubcategory` with the default ruleset and
+ * no learned weights, and exits non-zero when a category or sub-category
+ * differs from the expected one.  A fixture without `expectedSubcategory`
+ * expects none.
+ *
+ * Usage: npm run test:labels -- [fixtures-file]
+ */
+
+const path = require("path");
+const { registerServices, createAsyncStorage } = require("./load-services");
+
+const fixturesFile = path.resolve(
+  process.argv[2] ?? path.join(__dirname, "..", "fixtures", "label-sets.json")
+);
+
+registerServices({
+  "@react-native-async-storage/async-storage": createAsyncStorage().module,
+  "expo-image-manipulator": {},
+  "expo-file-system": {},
+  "react-native": { Platform: { OS: "node" } },
+});
+
+const { mapLabelsToCategory, matchSubcategory } = require("../services/label-matcher.ts");
+
+const fixtures = require(fixturesFile);
+const failures = [];
+for (const fixture of fixtures) {
+  const matched = mapLabelsToCategory(fixture.labels);
+  const subcategory = matchSubcategory(matched.category, fixture.labels)?.subcategory ?? null;
+  const expectedSubcategory = fixture.expectedSubcategory ?? null;
+
+  if (matched.category !== fixture.expected) {
+    failures.push(`${fixture.name}: expected ${fixture.expected}, got ${matched.category} (${matched.confidence})`);
+  } else if (subcategory !== expectedSubcategory) {
+    failures.push(`${fixture.name}: expected sub-category ${expectedSubcategory}, got ${subcategory}`);
+  }
+}
+
+console.log(`${fixtures.length - failures.length}/${fixtures.length} label sets matched`);
+if (failures.length > 0) {
+  console.error(`\n❌ Mismatches:\n${failures.map((f) => `  ${f}`).join("\n")}`);
+  process.exitCode = 1;
+}
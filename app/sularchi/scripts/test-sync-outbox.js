@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+
+/**
+ * Sync outbox check.
+ *
+ * Runs the app's outbox (on an in-memory SQLite database, see
+ * `createSqlite`) against server/sync-stub listening on a free local port,
+ * and checks two things the idempotency keys and backoff exist for:
+ *
+ *   - an upload whose response never arrives is sent again and stored once
+ *   - an upload the server refuses is retried, then marked synced
+ *
+ * Exits non-zero when a check fails.
+ *
+ * Usage: npm run test:sync
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { registerServices, createAsyncStorage, createImageModules, createSqlite } = require("./load-services");
+
+const stubDir = path.resolve(__dirname, "..", "..", "..", "server", "sync-stub", "src");
+const photo = `file://${path.join(__dirname, "..", "fixtures", "vision", "banana-peel.jpg")}`;
+const documentDir = fs.mkdtempSync(path.join(os.tmpdir(), "sularchi-sync-"));
+
+const failures = [];
+let checks = 0;
+function check(name, ok, detail = "") {
+  checks++;
+  if (!ok) failures.push(`${name}${detail ? `: ${detail}` : ""}`);
+}
+
+const report = (description) => ({
+  imageUri: photo,
+  wasteCategory: "plastic",
+  aiCategory: "plastic",
+  confidence: 0.9,
+  wasteLabel: "Plastic",
+  description,
+  location: { latitude: 41.3, longitude: 69.2, timestamp: Date.now() },
+});
+
+// ─── Network ─────────────────────────────────────────────────────────────────
+
+/** With `loseResponses`, requests reach the stub but the app only sees a dropped connection */
+const network = { loseResponses: false };
+const nodeFetch = global.fetch;
+global.fetch = async (url, init) => {
+  const response = await nodeFetch(url, init);
+  if (network.loseResponses) {
+    await response.arrayBuffer();
+    throw new TypeError("Network request failed");
+  }
+  return response;
+};
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main(server) {
+  const sqlite = await createSqlite();
+  const images = createImageModules({ documentDir });
+  registerServices({
+    "@react-native-async-storage/async-storage": createAsyncStorage().module,
+    "expo-sqlite": sqlite.module,
+    "expo-network": { addNetworkStateListener: () => ({ remove() {} }) },
+    ...images,
+    "react-native": { ...images["react-native"], AppState: { addEventListener: () => ({ remove() {} }) } },
+  });
+
+  const { createServer } = require(path.join(stubDir, "server.ts"));
+  const { ComplaintStore } = require(path.join(stubDir, "store.ts"));
+  const config = { port: 0, maxBodyBytes: 5 * 1024 * 1024, failRate: 0, retryAfterSeconds: 0, latencyMs: 0 };
+  const store = new ComplaintStore();
+  server.current = createServer(config, store);
+  await new Promise((resolve) => server.current.listen(0, "127.0.0.1", resolve));
+  process.env.EXPO_PUBLIC_SYNC_URL = `http://127.0.0.1:${server.current.address().port}`;
+
+  const { getDatabase } = require("../services/database.ts");
+  const { fileComplaint, getComplaintById } = require("../services/complaint-store.ts");
+  const { addSyncListener, syncNow } = require("../services/sync-outbox.ts");
+  const db = await getDatabase();
+  const outbox = (id) => db.getAllAsync("SELECT * FROM outbox WHERE complaint_id = ?", id);
+  const uploads = (id) => store.list().filter((c) => c.localId === id).length;
+
+  /** Filing a report starts a sync; wait for it and let the run wind down */
+  async function fileAndSync(params) {
+    const synced = new Promise((resolve) => {
+      const off = addSyncListener((summary) => {
+        off();
+        resolve(summary);
+      });
+    });
+    const { complaint } = await fileComplaint(params);
+    await synced;
+    await new Promise((resolve) => setImmediate(resolve));
+    return complaint.id;
+  }
+
+  // ─── Lost response ─────────────────────────────────────────────────────
+
+  network.loseResponses = true;
+  const lost = await fileAndSync(report("Response lost"));
+  network.loseResponses = false;
+
+  check("the first attempt reaches the server", uploads(lost) === 1);
+  check("the app keeps it queued", (await outbox(lost)).length === 1);
+
+  await syncNow();
+  const lostAfter = await getComplaintById(lost);
+  check("the repeated upload is stored once", uploads(lost) === 1, `${uploads(lost)} copies`);
+  check("the report is marked synced", lostAfter?.syncState === "synced", lostAfter?.syncState);
+  check("the report gets the first upload's id", lostAfter?.serverId === store.list()[0]?.id, lostAfter?.serverId);
+  check("its outbox entry is done", (await outbox(lost)).length === 0);
+
+  // ─── Refused upload ────────────────────────────────────────────────────
+
+  config.failRate = 1;
+  const refused = await fileAndSync(report("Server down"));
+  config.failRate = 0;
+
+  const [entry] = await outbox(refused);
+  check("a refused upload is not stored", uploads(refused) === 0);
+  check("it is waiting to retry", (await getComplaintById(refused))?.syncState === "retrying");
+  check("its attempt is counted", entry?.attempts === 1, `${entry?.attempts} attempts`);
+  check("its retry is scheduled", entry?.next_attempt_at > new Date().toISOString(), entry?.next_attempt_at);
+
+  // As if the retry timer fired now instead of after the backoff
+  await db.runAsync("UPDATE outbox SET next_attempt_at = ? WHERE complaint_id = ?", new Date().toISOString(), refused);
+  await syncNow();
+  const refusedAfter = await getComplaintById(refused);
+  check("the retry is stored once", uploads(refused) === 1, `${uploads(refused)} copies`);
+  check("the retried report is marked synced", refusedAfter?.syncState === "synced", refusedAfter?.syncState);
+  check("its outbox entry is done", (await outbox(refused)).length === 0);
+}
+
+const server = { current: null };
+const { log, warn } = console;
+// The stub logs every upload and the outbox warns about every failure
+console.log = () => {};
+console.warn = () => {};
+
+main(server)
+  .catch((error) => failures.push(`crashed: ${error.stack ?? error}`))
+  .finally(() => {
+    Object.assign(console, { log, warn });
+    server.current?.closeAllConnections();
+    server.current?.close();
+    fs.rmSync(documentDir, { recursive: true, force: true });
+
+    console.log(`${checks - failures.length}/${checks} sync checks passed`);
+    if (failures.length > 0) {
+      console.error(`\n❌ Failed:\n${failures.map((f) => `  ${f}`).join("\n")}`);
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+/**
+ * Serialized write check.
+ *
+ * Files reports and renames the user all at once against an in-memory
+ * SQLite database (see `createSqlite`), then checks that every report and
+ * every point landed exactly once, that the profile saw the writes in the
+ * order they were queued, and that a write failing halfway leaves nothing
+ * behind.  Exits non-zero when a check fails.
+ *
+ * Usage: npm run test:writes
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { registerServices, createAsyncStorage, createImageModules, createSqlite } = require("./load-services");
+
+const REPORTS = 12;
+const RENAMES = 6;
+const photo = `file://${path.join(__dirname, "..", "fixtures", "vision", "banana-peel.jpg")}`;
+const documentDir = fs.mkdtempSync(path.join(os.tmpdir(), "sularchi-writes-"));
+
+const failures = [];
+let checks = 0;
+function check(name, ok, detail = "") {
+  checks++;
+  if (!ok) failures.push(`${name}${detail ? `: ${detail}` : ""}`);
+}
+
+const report = (i) => ({
+  imageUri: photo,
+  wasteCategory: i % 2 === 0 ? "plastic" : "hazardous",
+  aiCategory: "plastic",
+  confidence: 0.9,
+  wasteLabel: "Plastic",
+  description: `Report ${i}`,
+  location: { latitude: 41.3, longitude: 69.2, timestamp: Date.now() },
+});
+
+async function main() {
+  const sqlite = await createSqlite();
+  const images = createImageModules({ documentDir });
+  registerServices({
+    "@react-native-async-storage/async-storage": createAsyncStorage().module,
+    "expo-sqlite": sqlite.module,
+    "expo-network": { addNetworkStateListener: () => ({ remove() {} }) },
+    ...images,
+    "react-native": { ...images["react-native"], AppState: { addEventListener: () => ({ remove() {} }) } },
+  });
+
+  const { getDatabase } = require("../services/database.ts");
+  const { fileComplaint, updateUserName, getUserProfile } = require("../services/complaint-store.ts");
+  const db = await getDatabase();
+  const count = async (table) => (await db.getFirstAsync(`SELECT COUNT(*) AS n FROM ${table}`)).n;
+
+  // The stand-in must notice unserialized writes, or the checks below prove nothing
+  const overlapping = await Promise.allSettled([
+    db.withExclusiveTransactionAsync(async (txn) => txn.getFirstAsync("SELECT 1")),
+    db.withExclusiveTransactionAsync(async (txn) => txn.getFirstAsync("SELECT 1")),
+  ]);
+  check("overlapping transactions are refused", overlapping.some((r) => r.status === "rejected"));
+
+  // ─── Concurrent writes ───────────────────────────────────────────────────
+
+  const writes = [];
+  for (let i = 0; i < REPORTS; i++) {
+    writes.push(fileComplaint(report(i)));
+    if (i % 2 === 1) writes.push(updateUserName(`Reporter ${(i - 1) / 2}`));
+  }
+  const settled = await Promise.allSettled(writes);
+  const rejected = settled.filter((r) => r.status === "rejected");
+  check("every write succeeds", rejected.length === 0, rejected.map((r) => r.reason?.message).join("; "));
+
+  const filed = settled.filter((r) => r.status === "fulfilled" && r.value.complaint).map((r) => r.value);
+  const awarded = filed.reduce((sum, f) => sum + f.pointsAwarded, 0);
+  const profile = await getUserProfile();
+  const stored = await db.getFirstAsync("SELECT COUNT(*) AS n, SUM(points_awarded) AS points FROM complaints");
+
+  check("each report is stored once", stored.n === REPORTS, `${stored.n} of ${REPORTS}`);
+  check("each report has one status entry", (await count("status_history")) === REPORTS);
+  check("each report is queued for upload once", (await count("outbox")) === REPORTS);
+  check("the report count adds up", profile.totalReports === REPORTS, `profile has ${profile.totalReports}`);
+  check(
+    "the points add up",
+    profile.totalPoints === awarded && stored.points === awarded,
+    `profile ${profile.totalPoints}, reports ${stored.points}, awarded ${awarded}`
+  );
+
+  // In commit order, each report's total is the one before it plus its own points
+  const byTotal = [...filed].sort((a, b) => a.profile.totalPoints - b.profile.totalPoints);
+  const lost = byTotal.filter(
+    (f, i) => f.profile.totalPoints - (byTotal[i - 1]?.profile.totalPoints ?? 0) !== f.pointsAwarded
+  );
+  check("no report lost another's points", lost.length === 0, byTotal.map((f) => f.profile.totalPoints).join(", "));
+  check("the last rename wins", profile.name === `Reporter ${RENAMES - 1}`, profile.name);
+
+  // ─── Rollback ────────────────────────────────────────────────────────────
+
+  const photosBefore = fs.readdirSync(path.join(documentDir, "photos")).length;
+  sqlite.failOn(/INSERT INTO outbox/);
+  const failed = await fileComplaint(report(REPORTS)).then(() => null, (error) => error);
+  const afterFailure = await getUserProfile();
+
+  check("a write failing halfway rejects", failed !== null);
+  check("its report is rolled back", (await count("complaints")) === REPORTS);
+  check("its status entry is rolled back", (await count("status_history")) === REPORTS);
+  check(
+    "its points are rolled back",
+    afterFailure.totalPoints === profile.totalPoints,
+    `${afterFailure.totalPoints} instead of ${profile.totalPoints}`
+  );
+  check("its photo is deleted", fs.readdirSync(path.join(documentDir, "photos")).length === photosBefore);
+
+  const next = await fileComplaint(report(REPORTS + 1)).then(() => true, () => false);
+  check("writes queued after a failure still run", next && (await count("complaints")) === REPORTS + 1);
+
+  console.log(`${checks - failures.length}/${checks} write checks passed`);
+  if (failures.length > 0) {
+    console.error(`\n❌ Failed:\n${failures.map((f) => `  ${f}`).join("\n")}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(`❌ Write check failed: ${error.stack ?? error}`);
+    process.exitCode = 1;
+  })
+  .finally(() => fs.rmSync(documentDir, { recursive: true, force: true }));
@@ -0,0 +1,73 @@
+/**
+ * Recorded Vision fixtures shared by the benchmark and the calibration fit.
+ *
+ * A fixtures directory holds, per fixture, `<name>.jpg` and
+ * `<name>.vision.json` (a recorded `images:annotate` response), plus an
+ * `expected.json` mapping each name to its expected category.
+ *
+ * The fixtures are split in two so accuracy is never measured on the data
+ * the calibration was fitted on: within each expected category, sorted by
+ * name, every other fixture (starting with the first) is for fitting and the
+ * rest are held out for the benchmark.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const defaultFixturesDir = path.resolve(__dirname, "..", "fixtures", "vision");
+
+function loadFixtures(dir) {
+  const expected = JSON.parse(fs.readFileSync(path.join(dir, "expected.json"), "utf8"));
+  return Object.entries(expected).map(([name, category]) => {
+    const image = path.join(dir, `${name}.jpg`);
+    const recording = path.join(dir, `${name}.vision.json`);
+    for (const file of [image, recording]) {
+      if (!fs.existsSync(file)) throw new Error(`Fixture ${name} is missing ${path.basename(file)}`);
+    }
+    return { name, expected: category, image, recording: JSON.parse(fs.readFileSync(recording, "utf8")) };
+  });
+}
+
+/**
+ * Split fixtures into `{ fitting, heldOut }`, stratified by expected category.
+ */
+function splitFixtures(fixtures) {
+  const fitting = [];
+  const heldOut = [];
+  const byCategory = new Map();
+  for (const fixture of [...fixtures].sort((a, b) => a.name.localeCompare(b.name))) {
+    const index = byCategory.get(fixture.expected) ?? 0;
+    byCategory.set(fixture.expected, index + 1);
+    (index % 2 === 0 ? fitting : heldOut).push(fixture);
+  }
+  return { fitting, heldOut };
+}
+
+/** Labels as the Vision provider feeds them to the matcher: image labels, then objects */
+function recordedLabels(recording) {
+  const annotations = recording?.responses?.[0] ?? {};
+  return [
+    ...(annotations.labelAnnotations ?? []).map((la) => ({ description: la.description, score: la.score })),
+    ...(annotations.localizedObjectAnnotations ?? []).map((oa) => ({ description: oa.name, score: oa.score })),
+  ];
+}
+
+/**
+ * Answer Google Vision requests with the recording in `.current`; any other
+ * request fails.  Returns the holder to set the recording on.
+ */
+function replayVision() {
+  const replay = { current: null };
+  global.fetch = async (url) => {
+    if (String(url).startsWith("https://vision.googleapis.com/") && replay.current) {
+      return new Response(JSON.stringify(replay.current), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    throw new TypeError(`Network access is disabled: ${url}`);
+  };
+  return replay;
+}
+
+module.exports = { defaultFixturesDir, loadFixtures, splitFixtures, recordedLabels, replayVision };
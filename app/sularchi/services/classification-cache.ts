@@ -0,0 +1,166 @@
+/**
+ * Classification Cache
+ *
+ * Persists paid classification results keyed by a content hash of the photo
+ * file, so classifying the same picture again (a re-import, a retry) does not
+ * trigger another remote request.  Entries expire after a TTL and the least
+ * recently used ones are evicted once the cache grows past its size budget.
+ * Hits only bump the LRU timestamp in memory; those are written back
+ * together after LRU_FLUSH_MS.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CryptoDigestAlgorithm, digest } from 'expo-crypto';
+import { File as ExpoFile } from 'expo-file-system';
+import { type ClassificationResult } from './waste-classifier';
+
+interface CacheEntry {
+  result: ClassificationResult;
+  /** Epoch ms */
+  createdAt: number;
+  /** Epoch ms, drives LRU eviction */
+  lastUsedAt: number;
+}
+
+type CacheStore = Record<string, CacheEntry>;
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+
+const CACHE_KEY = '@sularchi/classification-cache';
+
+// ─── Cache Parameters ────────────────────────────────────────────────────────
+
+const TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_CACHE_BYTES = 512 * 1024; // serialized size budget
+const LRU_FLUSH_MS = 5000; // delay before hits' timestamps are persisted
+
+let store: CacheStore | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Hashing ─────────────────────────────────────────────────────────────────
+
+/**
+ * SHA-256 of the photo's bytes, as hex.  Only a byte-identical file gets the
+ * same hash: a re-encoded, resized or edited copy is a miss, but two
+ * different photos never share a cached result, however alike they look.
+ */
+export async function computeImageHash(imageUri: string): Promise<string> {
+  const bytes = await new ExpoFile(imageUri).bytes();
+  const hash = new Uint8Array(await digest(CryptoDigestAlgorithm.SHA256, bytes));
+  return Array.from(hash, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ─── Storage ─────────────────────────────────────────────────────────────────
+
+async function loadStore(): Promise<CacheStore> {
+  if (!store) {
+    try {
+      const json = await AsyncStorage.getItem(CACHE_KEY);
+      store = json ? JSON.parse(json) : {};
+    } catch (e) {
+      console.warn('Failed to load classification cache:', e);
+      store = {};
+    }
+  }
+  return store!;
+}
+
+/**
+ * Drop expired entries, then the least recently used ones until the
+ * serialized cache fits MAX_CACHE_BYTES.  Returns the serialized cache.
+ */
+function evict(cache: CacheStore, now: number): string {
+  for (const [key, entry] of Object.entries(cache)) {
+    if (now - entry.createdAt > TTL_MS) delete cache[key];
+  }
+
+  let json = JSON.stringify(cache);
+  if (json.length > MAX_CACHE_BYTES) {
+    const byAge = Object.entries(cache).sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt);
+    for (const [key] of byAge) {
+      delete cache[key];
+      json = JSON.stringify(cache);
+      if (json.length <= MAX_CACHE_BYTES) break;
+    }
+  }
+  return json;
+}
+
+async function saveStore(cache: CacheStore): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  try {
+    await AsyncStorage.setItem(CACHE_KEY, evict(cache, Date.now()));
+  } catch (e) {
+    console.warn('Failed to save classification cache:', e);
+  }
+}
+
+/**
+ * Save the cache after LRU_FLUSH_MS, unless a save is already pending, so a
+ * run of hits rewrites the stored blob once.
+ */
+function scheduleSave(cache: CacheStore): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void saveStore(cache);
+  }, LRU_FLUSH_MS);
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Look up a cached result by image hash.  Expired entries count as misses.
+ */
+export async function getCachedClassification(hash: string): Promise<ClassificationResult | null> {
+  const cache = await loadStore();
+  const entry = cache[hash];
+  if (!entry) return null;
+
+  const now = Date.now();
+  if (now - entry.createdAt > TTL_MS) {
+    delete cache[hash];
+    await saveStore(cache);
+    return null;
+  }
+
+  entry.lastUsedAt = now;
+  scheduleSave(cache);
+  return entry.result;
+}
+
+/**
+ * Store a result (with its raw provider output) under an image hash.
+ */
+export async function setCachedClassification(
+  hash: string,
+  result: ClassificationResult,
+): Promise<void> {
+  const cache = await loadStore();
+  const now = Date.now();
+  const { cached: _cached, ...stored } = result;
+  cache[hash] = { result: stored, createdAt: now, lastUsedAt: now };
+  await saveStore(cache);
+}
+
+/**
+ * Number of cached results.
+ */
+export async function getClassificationCacheSize(): Promise<number> {
+  return Object.keys(await loadStore()).length;
+}
+
+/**
+ * Remove every cached result.
+ */
+export async function clearClassificationCache(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  store = {};
+  await AsyncStorage.removeItem(CACHE_KEY);
+}
@@ -0,0 +1,92 @@
+/**
+ * Classifier Errors
+ *
+ * Typed failures for remote classifier requests, so the provider chain can
+ * decide what to retry and the scan screen can tell the user why a result
+ * is degraded.
+ */
+
+export type ClassifierErrorKind =
+  | 'invalid-key'
+  | 'quota-exhausted'
+  | 'offline'
+  | 'timeout'
+  | 'server-error'
+  | 'empty-labels'
+  | 'bad-response';
+
+const RETRYABLE_KINDS: ClassifierErrorKind[] = ['offline', 'timeout', 'server-error'];
+
+export class ClassifierError extends Error {
+  readonly kind: ClassifierErrorKind;
+  /** Whether the same request may succeed if tried again */
+  readonly retryable: boolean;
+  /** HTTP status, when the server answered */
+  readonly status?: number;
+
+  constructor(kind: ClassifierErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'ClassifierError';
+    this.kind = kind;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    this.status = status;
+  }
+}
+
+/**
+ * Classify a non-2xx HTTP response.  Google APIs answer an invalid or
+ * restricted key with 400/401/403 and an exhausted quota with 429.
+ */
+export function errorFromResponse(status: number, body: string): ClassifierError {
+  const detail = body.slice(0, 200);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(body)) {
+    return new ClassifierError('quota-exhausted', `HTTP ${status}: ${detail}`, status);
+  }
+  if (status === 401 || status === 403 || (status === 400 && /API key/i.test(body))) {
+    return new ClassifierError('invalid-key', `HTTP ${status}: ${detail}`, status);
+  }
+  if (status >= 500) {
+    return new ClassifierError('server-error', `HTTP ${status}: ${detail}`, status);
+  }
+  return new ClassifierError('bad-response', `HTTP ${status}: ${detail}`, status);
+}
+
+/**
+ * Wrap anything thrown by `fetch` or response parsing as a ClassifierError.
+ */
+export function toClassifierError(error: unknown): ClassifierError {
+  if (error instanceof ClassifierError) return error;
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new ClassifierError('timeout', 'Request timed out');
+  }
+  // React Native's fetch rejects with a TypeError when there is no connection
+  if (error instanceof TypeError) {
+    return new ClassifierError('offline', error.message);
+  }
+  if (error instanceof SyntaxError) {
+    return new ClassifierError('bad-response', `Unreadable response: ${error.message}`);
+  }
+  return new ClassifierError('bad-response', error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Short explanation for the user of why the AI could not be used.
+ */
+export function describeClassifierError(kind: ClassifierErrorKind): string {
+  switch (kind) {
+    case 'invalid-key':
+      return 'The image recognition service rejected our API key.';
+    case 'quota-exhausted':
+      return 'The image recognition quota is used up for now.';
+    case 'offline':
+      return 'You appear to be offline.';
+    case 'timeout':
+      return 'The image recognition service took too long to answer.';
+    case 'server-error':
+      return 'The image recognition service is having problems.';
+    case 'empty-labels':
+      return 'The image recognition service could not recognise anything in the photo.';
+    default:
+      return 'The image recognition service sent an unexpected answer.';
+  }
+}
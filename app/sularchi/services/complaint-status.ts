@@ -0,0 +1,91 @@
+/**
+ * Complaint Status
+ *
+ * The lifecycle of a report as an explicit state machine.  Every change of
+ * status is recorded as a `StatusChange`, which together form the report's
+ * timeline.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ComplaintStatus =
+  | 'pending'
+  | 'in-progress'
+  | 'resolved'
+  | 'rejected'
+  | 'duplicate'
+  | 'reopened';
+
+/** Who changed a status */
+export interface StatusActor {
+  kind: 'reporter' | 'municipality' | 'system';
+  /** Display name, e.g. the reporter's name or the crew's depot */
+  name: string;
+}
+
+/** One entry of a report's timeline */
+export interface StatusChange {
+  /** Null for the entry that records filing the report */
+  from: ComplaintStatus | null;
+  to: ComplaintStatus;
+  /** ISO timestamp */
+  at: string;
+  actor: StatusActor;
+  note?: string;
+}
+
+/** Raised for a status change the state machine does not allow */
+export class StatusTransitionError extends Error {
+  constructor(
+    readonly from: ComplaintStatus,
+    readonly to: ComplaintStatus,
+  ) {
+    super(`Cannot change a ${from} report to ${to}`);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+// ─── State Machine ───────────────────────────────────────────────────────────
+
+/** Allowed next statuses for each status */
+const TRANSITIONS: Record<ComplaintStatus, ComplaintStatus[]> = {
+  pending: ['in-progress', 'resolved', 'rejected', 'duplicate'],
+  'in-progress': ['resolved', 'rejected', 'duplicate'],
+  reopened: ['in-progress', 'resolved', 'rejected', 'duplicate'],
+  resolved: ['reopened'],
+  rejected: ['reopened'],
+  duplicate: ['reopened'],
+};
+
+/** Statuses in which nobody needs to act on the report any more */
+export const CLOSED_STATUSES: ComplaintStatus[] = ['resolved', 'rejected', 'duplicate'];
+
+/**
+ * Statuses the reporter may set from the app: confirming a clean-up or
+ * reopening a report.  The others are the municipality's to set.
+ */
+export const REPORTER_STATUSES: ComplaintStatus[] = ['resolved', 'reopened'];
+
+export const STATUS_INFO: Record<ComplaintStatus, { label: string; icon: string; color: string }> = {
+  pending: { label: 'Pending', icon: '🕒', color: '#9E9E9E' },
+  'in-progress': { label: 'In Progress', icon: '🚧', color: '#FF9800' },
+  resolved: { label: 'Resolved', icon: '✅', color: '#4CAF50' },
+  rejected: { label: 'Rejected', icon: '🚫', color: '#C62828' },
+  duplicate: { label: 'Duplicate', icon: '👯', color: '#7B1FA2' },
+  reopened: { label: 'Reopened', icon: '🔁', color: '#1976D2' },
+};
+
+/**
+ * Statuses a report in `status` may move to.
+ */
+export function getAllowedTransitions(status: ComplaintStatus): ComplaintStatus[] {
+  return TRANSITIONS[status] ?? [];
+}
+
+export function canTransition(from: ComplaintStatus, to: ComplaintStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+export function isClosedStatus(status: ComplaintStatus): boolean {
+  return CLOSED_STATUSES.includes(status);
+}
@@ -1,12 +1,34 @@
 /**
  * Complaint Store
  *
- * Manages waste complaints (reports) with local persistence via AsyncStorage.
- * Each complaint links a captured image + AI classification + GPS location + points.
+ * Manages waste complaints (reports) with local persistence in SQLite (see
+ * database).  Each complaint links a captured image + AI classification +
+ * GPS location + points.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { type WasteCategory } from './waste-classifier';
+import { type SQLiteDatabase } from 'expo-sqlite';
+import { getDatabase, runWrite } from './database';
+import {
+  canTransition,
+  CLOSED_STATUSES,
+  StatusTransitionError,
+  type ComplaintStatus,
+  type StatusActor,
+  type StatusChange,
+} from './complaint-status';
+import {
+  deletePhotoFiles,
+  isStoredPhoto,
+  photoFileExists,
+  reconcilePhotoFiles,
+  storePhoto,
+  type PhotoStorageUsage,
+} from './photo-storage';
+import { enqueueOutboxEntry, requestSync, type SyncState } from './sync-outbox';
+import { type BoundingBox, type DetectedItem, type WasteCategory } from './waste-classifier';
+import { getActiveRuleset } from './waste-taxonomy';
+import { type HazardAssessment } from './hazard-severity';
+import { type WasteVolume } from './waste-volume';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -15,39 +37,63 @@ export interface GeoLocation {
   longitude: number;
   accuracy: number | null;
   address?: string;
+  /** City from reverse geocoding, used to pick the local waste ruleset */
+  city?: string;
 }
 
-export type ComplaintStatus = 'pending' | 'in-progress' | 'resolved';
+/** How soon a crew should attend to a report */
+export type ReportPriority = 'low' | 'normal' | 'high' | 'urgent';
 
 export interface Complaint {
   id: string;
-  /** Local image URI */
+  /** Local image URI, in durable photo storage (see photo-storage) */
   imageUri: string;
-  /** AI-classified waste category */
+  /** Small copy of the photo for list views */
+  thumbnailUri?: string;
+  /** User-confirmed waste category */
   wasteCategory: WasteCategory;
-  /** AI classification confidence (0-1) */
+  /** Optional sub-category within `wasteCategory` (e.g. `pet-1`) */
+  wasteSubcategory?: string;
+  /** Category the AI originally suggested (absent on reports filed before corrections existed) */
+  aiCategory?: WasteCategory;
+  /** Calibrated AI confidence (0-1) for the confirmed category; 0 if the AI did not suggest it */
   confidence: number;
   /** Human-readable waste label */
   wasteLabel: string;
   /** AI-generated description of the waste */
   description: string;
+  /** Region of the photo this report covers, when filed for a single detected item */
+  boundingBox?: BoundingBox;
+  /** All detected items, when filed as one mixed-waste report */
+  detectedItems?: DetectedItem[];
+  /** Producer recognised from a logo, for extended producer responsibility audits */
+  brand?: string;
+  /** Recycling codes read from the packaging (e.g. `PET 1`) */
+  recyclingCodes?: string[];
+  /** Severity from the follow-up questions, for hazardous and e-waste reports */
+  hazard?: HazardAssessment;
+  /** How much waste the report covers (absent on reports filed before volumes existed) */
+  volume?: WasteVolume;
+  /** Derived from volume and hazard severity, see `computePriority` */
+  priority?: ReportPriority;
   /** GPS coordinates auto-attached */
   location: GeoLocation;
   /** Points awarded for this report */
   pointsAwarded: number;
-  /** Current status of the complaint */
+  /** Current status of the complaint; see `getStatusHistory` for how it got there */
   status: ComplaintStatus;
   /** ISO timestamp of creation */
   createdAt: string;
   /** ISO timestamp of last update */
   updatedAt: string;
+  /** Id the sync server assigned, once uploaded */
+  serverId?: string;
+  /** Upload state, see sync-outbox */
+  syncState?: SyncState;
+  /** Why the last upload failed */
+  syncError?: string;
 }
 
-// ─── Storage Keys ────────────────────────────────────────────────────────────
-
-const COMPLAINTS_KEY = '@sularchi/complaints';
-const USER_PROFILE_KEY = '@sularchi/user-profile';
-
 // ─── User Profile ────────────────────────────────────────────────────────────
 
 export interface UserProfile {
@@ -74,36 +120,42 @@ const DEFAULT_PROFILE: UserProfile = {
 
 // ─── Points System ───────────────────────────────────────────────────────────
 
-const POINTS_TABLE: Record<WasteCategory, number> = {
-  plastic: 10,
-  paper: 8,
-  glass: 12,
-  metal: 12,
-  organic: 6,
-  'e-waste': 20,
-  textile: 10,
-  hazardous: 25,
-  unknown: 3,
-};
-
 const STREAK_BONUS = 5; // extra points per active streak day
-const HIGH_CONFIDENCE_BONUS = 5; // bonus if confidence >= 85%
+const HIGH_CONFIDENCE_BONUS = 5; // bonus if calibrated confidence >= 85%
+
+/** Extra points for reporting more waste, since larger sites matter more */
+const VOLUME_BONUS: Record<WasteVolume, number> = {
+  single: 0,
+  bag: 3,
+  pile: 8,
+  dump: 15,
+};
 
 /**
- * Calculate points for a waste report.
+ * Calculate points for a waste report.  A sub-category's own point value,
+ * when the ruleset defines one, replaces the category's.
  */
 export function calculatePoints(
   category: WasteCategory,
   confidence: number,
-  currentStreak: number
+  currentStreak: number,
+  subcategory?: string,
+  volume?: WasteVolume
 ): number {
-  let points = POINTS_TABLE[category] || 3;
+  const def = getActiveRuleset().categories[category];
+  const subPoints = subcategory ? def?.subcategories?.[subcategory]?.points : undefined;
+  let points = subPoints ?? def?.points ?? 3;
 
   // High confidence bonus
   if (confidence >= 0.85) {
     points += HIGH_CONFIDENCE_BONUS;
   }
 
+  // Volume bonus
+  if (volume) {
+    points += VOLUME_BONUS[volume];
+  }
+
   // Streak bonus
   if (currentStreak > 0) {
     points += Math.min(currentStreak, 7) * STREAK_BONUS;
@@ -112,6 +164,19 @@ export function calculatePoints(
   return points;
 }
 
+// ─── Priority ────────────────────────────────────────────────────────────────
+
+/**
+ * Priority of a report for the crews: urgent hazards first, then dump sites
+ * and hazardous piles, then anything larger than a single item.
+ */
+export function computePriority(volume?: WasteVolume, hazard?: HazardAssessment): ReportPriority {
+  if (hazard?.urgent) return 'urgent';
+  if (volume === 'dump' || (volume === 'pile' && hazard?.severity === 'medium')) return 'high';
+  if (volume === 'pile' || volume === 'bag' || hazard?.severity === 'medium') return 'normal';
+  return 'low';
+}
+
 // ─── Streak Helpers ──────────────────────────────────────────────────────────
 
 function isSameDay(d1: Date, d2: Date): boolean {
@@ -139,113 +204,534 @@ function computeStreak(lastReportDate: string | null, currentStreak: number): nu
   return 1; // streak broken
 }
 
+// ─── Rows ────────────────────────────────────────────────────────────────────
+
+interface ComplaintRow {
+  data: string;
+  photo_uri: string | null;
+  thumbnail_uri: string | null;
+  server_id: string | null;
+  sync_state: SyncState;
+  sync_error: string | null;
+}
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  total_points: number;
+  total_reports: number;
+  streak: number;
+  last_report_date: string | null;
+  joined_at: string;
+  rank: number;
+}
+
+/**
+ * A complaint with its photo and thumbnail, which are stored as attachments,
+ * and its sync columns
+ */
+const SELECT_COMPLAINTS = `
+  SELECT c.data, a.uri AS photo_uri, t.uri AS thumbnail_uri, c.server_id, c.sync_state, c.sync_error
+  FROM complaints c
+  LEFT JOIN attachments a ON a.complaint_id = c.id AND a.kind = 'photo'
+  LEFT JOIN attachments t ON t.complaint_id = c.id AND t.kind = 'thumbnail'`;
+
+function rowToComplaint(row: ComplaintRow): Complaint {
+  return {
+    ...JSON.parse(row.data),
+    imageUri: row.photo_uri ?? '',
+    ...(row.thumbnail_uri && { thumbnailUri: row.thumbnail_uri }),
+    ...(row.server_id && { serverId: row.server_id }),
+    syncState: row.sync_state,
+    ...(row.sync_error && { syncError: row.sync_error }),
+  };
+}
+
+/** Closed statuses as an SQL list, for `status NOT IN (…)` */
+const CLOSED_STATUSES_SQL = CLOSED_STATUSES.map((status) => `'${status}'`).join(', ');
+
+async function insertStatusChange(db: SQLiteDatabase, complaintId: string, change: StatusChange): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO status_history (complaint_id, from_status, to_status, at, actor_kind, actor_name, note)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    complaintId,
+    change.from,
+    change.to,
+    change.at,
+    change.actor.kind,
+    change.actor.name,
+    change.note ?? null,
+  );
+}
+
+async function insertAttachment(
+  db: SQLiteDatabase,
+  complaintId: string,
+  kind: 'photo' | 'thumbnail',
+  uri: string,
+): Promise<void> {
+  await db.runAsync(
+    'INSERT INTO attachments (complaint_id, kind, uri, created_at) VALUES (?, ?, ?, ?)',
+    complaintId,
+    kind,
+    uri,
+    new Date().toISOString(),
+  );
+}
+
+/**
+ * Insert a complaint and its photo and thumbnail attachments.
+ */
+export async function insertComplaint(db: SQLiteDatabase, complaint: Complaint): Promise<void> {
+  const { imageUri, thumbnailUri, ...data } = complaint;
+  await db.runAsync(
+    `INSERT INTO complaints
+       (id, created_at, updated_at, status, waste_category, waste_subcategory, priority, brand, points_awarded, data)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    complaint.id,
+    complaint.createdAt,
+    complaint.updatedAt,
+    complaint.status,
+    complaint.wasteCategory,
+    complaint.wasteSubcategory ?? null,
+    complaint.priority ?? (complaint.hazard?.urgent ? 'urgent' : null),
+    complaint.brand ?? null,
+    complaint.pointsAwarded,
+    JSON.stringify(data),
+  );
+  await insertAttachment(db, complaint.id, 'photo', imageUri);
+  if (thumbnailUri) {
+    await insertAttachment(db, complaint.id, 'thumbnail', thumbnailUri);
+  }
+}
+
+/**
+ * Insert or replace the (single) user profile row.
+ */
+export async function writeProfile(db: SQLiteDatabase, profile: UserProfile): Promise<void> {
+  await db.runAsync(
+    `INSERT OR REPLACE INTO profile
+       (id, name, total_points, total_reports, streak, last_report_date, joined_at, rank)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    profile.id,
+    profile.name,
+    profile.totalPoints,
+    profile.totalReports,
+    profile.streak,
+    profile.lastReportDate,
+    profile.joinedAt,
+    profile.rank,
+  );
+}
+
 // ─── CRUD Operations ─────────────────────────────────────────────────────────
 
+/**
+ * Read the profile row, if there is one.
+ */
+async function readProfile(db: SQLiteDatabase): Promise<UserProfile | null> {
+  const row = await db.getFirstAsync<ProfileRow>('SELECT * FROM profile LIMIT 1');
+  return row
+    ? {
+        id: row.id,
+        name: row.name,
+        totalPoints: row.total_points,
+        totalReports: row.total_reports,
+        streak: row.streak,
+        lastReportDate: row.last_report_date,
+        joinedAt: row.joined_at,
+        rank: row.rank,
+      }
+    : null;
+}
+
+function newProfile(): UserProfile {
+  return { ...DEFAULT_PROFILE, joinedAt: new Date().toISOString() };
+}
+
 /**
  * Get the user profile.
  */
 export async function getUserProfile(): Promise<UserProfile> {
   try {
-    const json = await AsyncStorage.getItem(USER_PROFILE_KEY);
-    if (json) return JSON.parse(json);
+    const profile = await readProfile(await getDatabase());
+    if (profile) return profile;
   } catch (e) {
     console.warn('Failed to load user profile:', e);
   }
-  return { ...DEFAULT_PROFILE, joinedAt: new Date().toISOString() };
+  return newProfile();
 }
 
 /**
  * Save user profile.
  */
 export async function saveUserProfile(profile: UserProfile): Promise<void> {
-  await AsyncStorage.setItem(USER_PROFILE_KEY, JSON.stringify(profile));
+  await runWrite((txn) => writeProfile(txn, profile));
 }
 
 /**
  * Update user name.
  */
 export async function updateUserName(name: string): Promise<UserProfile> {
-  const profile = await getUserProfile();
-  profile.name = name;
-  await saveUserProfile(profile);
-  return profile;
+  return runWrite(async (txn) => {
+    const profile = (await readProfile(txn)) ?? newProfile();
+    profile.name = name;
+    await writeProfile(txn, profile);
+    return profile;
+  });
 }
 
 /**
- * Get all complaints, newest first.
+ * Get all complaints, newest first.  Prefer `getComplaintsPage` for lists.
  */
 export async function getComplaints(): Promise<Complaint[]> {
   try {
-    const json = await AsyncStorage.getItem(COMPLAINTS_KEY);
-    if (json) {
-      const complaints: Complaint[] = JSON.parse(json);
-      return complaints.sort(
-        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-    }
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<ComplaintRow>(
+      `${SELECT_COMPLAINTS} ORDER BY c.created_at DESC, c.id DESC`,
+    );
+    return rows.map(rowToComplaint);
   } catch (e) {
     console.warn('Failed to load complaints:', e);
   }
   return [];
 }
 
+/** Position after the last complaint of a page */
+export interface ComplaintCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface ComplaintQuery {
+  category?: WasteCategory;
+  subcategory?: string;
+  status?: ComplaintStatus;
+  /** Leave out open urgent reports, which `getPinnedComplaints` lists */
+  excludePinned?: boolean;
+  /** Continue after a previous page */
+  cursor?: ComplaintCursor | null;
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/** WHERE clause and parameters for the filters of a query */
+function buildFilter(query: ComplaintQuery): { where: string; params: (string | number)[] } {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.category) {
+    clauses.push('c.waste_category = ?');
+    params.push(query.category);
+  }
+  if (query.subcategory) {
+    clauses.push('c.waste_subcategory = ?');
+    params.push(query.subcategory);
+  }
+  if (query.status) {
+    clauses.push('c.status = ?');
+    params.push(query.status);
+  }
+  if (query.excludePinned) {
+    clauses.push(`NOT (c.priority IS 'urgent' AND c.status NOT IN (${CLOSED_STATUSES_SQL}))`);
+  }
+  if (query.cursor) {
+    clauses.push('(c.created_at, c.id) < (?, ?)');
+    params.push(query.cursor.createdAt, query.cursor.id);
+  }
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+/**
+ * Get one page of complaints, newest first.  `nextCursor` is null on the
+ * last page.
+ */
+export async function getComplaintsPage(
+  query: ComplaintQuery = {},
+): Promise<{ complaints: Complaint[]; nextCursor: ComplaintCursor | null }> {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const { where, params } = buildFilter(query);
+  const db = await getDatabase();
+  // One extra row tells whether another page follows
+  const rows = await db.getAllAsync<ComplaintRow>(
+    `${SELECT_COMPLAINTS} ${where} ORDER BY c.created_at DESC, c.id DESC LIMIT ?`,
+    ...params,
+    limit + 1,
+  );
+
+  const complaints = rows.slice(0, limit).map(rowToComplaint);
+  const last = complaints[complaints.length - 1];
+  return {
+    complaints,
+    nextCursor: rows.length > limit && last ? { createdAt: last.createdAt, id: last.id } : null,
+  };
+}
+
+/**
+ * Urgent reports that are still open, newest first, to pin above the paged
+ * list.
+ */
+export async function getPinnedComplaints(
+  query: Pick<ComplaintQuery, 'category' | 'subcategory'> = {},
+): Promise<Complaint[]> {
+  const { where, params } = buildFilter(query);
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ComplaintRow>(
+    `${SELECT_COMPLAINTS} ${where ? `${where} AND` : 'WHERE'} c.priority = 'urgent' AND c.status NOT IN (${CLOSED_STATUSES_SQL})
+     ORDER BY c.created_at DESC, c.id DESC`,
+    ...params,
+  );
+  return rows.map(rowToComplaint);
+}
+
 /**
  * File a new waste complaint. Awards points and updates streak.
- * Returns the created complaint and updated profile.
+ * Returns the created complaint and updated profile.  The complaint and the
+ * profile are written in one serialized transaction (see `runWrite`).
  */
 export async function fileComplaint(params: {
   imageUri: string;
   wasteCategory: WasteCategory;
+  wasteSubcategory?: string;
+  aiCategory: WasteCategory;
   confidence: number;
   wasteLabel: string;
   description: string;
   location: GeoLocation;
+  boundingBox?: BoundingBox;
+  detectedItems?: DetectedItem[];
+  brand?: string;
+  recyclingCodes?: string[];
+  hazard?: HazardAssessment;
+  volume?: WasteVolume;
 }): Promise<{ complaint: Complaint; profile: UserProfile; pointsAwarded: number }> {
-  const profile = await getUserProfile();
+  const id = `complaint-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
-  // Update streak
-  const newStreak = computeStreak(profile.lastReportDate, profile.streak);
-
-  // Calculate points
-  const pointsAwarded = calculatePoints(params.wasteCategory, params.confidence, newStreak);
-
-  // Create complaint
-  const now = new Date().toISOString();
-  const complaint: Complaint = {
-    id: `complaint-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-    imageUri: params.imageUri,
-    wasteCategory: params.wasteCategory,
-    confidence: params.confidence,
-    wasteLabel: params.wasteLabel,
-    description: params.description,
-    location: params.location,
-    pointsAwarded,
-    status: 'pending',
-    createdAt: now,
-    updatedAt: now,
-  };
+  // The camera's file is in a cache the OS may purge; keep a durable copy
+  let stored: { photoUri: string; thumbnailUri?: string };
+  try {
+    stored = await storePhoto(params.imageUri, id);
+  } catch (e) {
+    console.warn('Failed to store report photo, keeping the camera file:', e);
+    stored = { photoUri: params.imageUri };
+  }
+
+  const write = runWrite(async (txn) => {
+    // The profile is read inside the write so concurrent submits each see the
+    // points of the ones before them
+    const profile = (await readProfile(txn)) ?? newProfile();
+
+    // Update streak
+    const newStreak = computeStreak(profile.lastReportDate, profile.streak);
+
+    // Calculate points
+    const pointsAwarded = calculatePoints(
+      params.wasteCategory,
+      params.confidence,
+      newStreak,
+      params.wasteSubcategory,
+      params.volume
+    );
+
+    // Create complaint
+    const now = new Date().toISOString();
+    const complaint: Complaint = {
+      id,
+      imageUri: stored.photoUri,
+      ...(stored.thumbnailUri && { thumbnailUri: stored.thumbnailUri }),
+      wasteCategory: params.wasteCategory,
+      ...(params.wasteSubcategory && { wasteSubcategory: params.wasteSubcategory }),
+      aiCategory: params.aiCategory,
+      confidence: params.confidence,
+      wasteLabel: params.wasteLabel,
+      description: params.description,
+      ...(params.boundingBox && { boundingBox: params.boundingBox }),
+      ...(params.detectedItems && { detectedItems: params.detectedItems }),
+      ...(params.brand && { brand: params.brand }),
+      ...(params.recyclingCodes?.length && { recyclingCodes: params.recyclingCodes }),
+      ...(params.hazard && { hazard: params.hazard }),
+      ...(params.volume && { volume: params.volume }),
+      priority: computePriority(params.volume, params.hazard),
+      location: params.location,
+      pointsAwarded,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Update profile
+    profile.totalPoints += pointsAwarded;
+    profile.totalReports += 1;
+    profile.streak = newStreak;
+    profile.lastReportDate = now;
+
+    // Persist both together
+    await insertComplaint(txn, complaint);
+    await insertStatusChange(txn, complaint.id, {
+      from: null,
+      to: complaint.status,
+      at: now,
+      actor: { kind: 'reporter', name: profile.name },
+    });
+    await writeProfile(txn, profile);
+    await enqueueOutboxEntry(txn, complaint.id, 'create', complaint);
+
+    return { complaint, profile, pointsAwarded };
+  });
+
+  let filed: Awaited<typeof write>;
+  try {
+    filed = await write;
+  } catch (error) {
+    deletePhotoFiles([stored.photoUri, stored.thumbnailUri ?? '']);
+    throw error;
+  }
+  requestSync();
+  return filed;
+}
 
-  // Persist complaint
-  const complaints = await getComplaints();
-  complaints.unshift(complaint);
-  await AsyncStorage.setItem(COMPLAINTS_KEY, JSON.stringify(complaints));
+/**
+ * Move a complaint to a new status, record the change in its history and
+ * queue it for upload.  Throws a StatusTransitionError when the state
+ * machine does not allow the change (see complaint-status).
+ */
+export async function updateComplaintStatus(
+  id: string,
+  to: ComplaintStatus,
+  change: {
+    actor: StatusActor;
+    note?: string;
+    /** When the change was made, if not now (e.g. on the server) */
+    at?: string;
+    /** Queue the change for upload; off for changes pulled from the server */
+    sync?: boolean;
+  },
+): Promise<Complaint> {
+  const sync = change.sync ?? true;
+  await runWrite(async (txn) => {
+    const row = await txn.getFirstAsync<{ status: ComplaintStatus; data: string }>(
+      'SELECT status, data FROM complaints WHERE id = ?',
+      id,
+    );
+    if (!row) throw new Error(`No complaint with id ${id}`);
+    if (!canTransition(row.status, to)) throw new StatusTransitionError(row.status, to);
+
+    const now = change.at ?? new Date().toISOString();
+    const data = { ...JSON.parse(row.data), status: to, updatedAt: now };
+    await txn.runAsync(
+      'UPDATE complaints SET status = ?, updated_at = ?, data = ? WHERE id = ?',
+      to,
+      now,
+      JSON.stringify(data),
+      id,
+    );
+    const recorded: StatusChange = {
+      from: row.status,
+      to,
+      at: now,
+      actor: change.actor,
+      ...(change.note?.trim() && { note: change.note.trim() }),
+    };
+    await insertStatusChange(txn, id, recorded);
+    if (sync) await enqueueOutboxEntry(txn, id, 'status', recorded);
+  });
+  if (sync) requestSync();
+  return (await getComplaintById(id))!;
+}
+
+/**
+ * The status changes of a complaint, oldest first, starting with its filing.
+ */
+export async function getStatusHistory(id: string): Promise<StatusChange[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{
+    from_status: ComplaintStatus | null;
+    to_status: ComplaintStatus;
+    at: string;
+    actor_kind: StatusActor['kind'];
+    actor_name: string;
+    note: string | null;
+  }>(
+    `SELECT from_status, to_status, at, actor_kind, actor_name, note
+     FROM status_history WHERE complaint_id = ? ORDER BY at, id`,
+    id,
+  );
+  return rows.map((row) => ({
+    from: row.from_status,
+    to: row.to_status,
+    at: row.at,
+    actor: { kind: row.actor_kind, name: row.actor_name },
+    ...(row.note && { note: row.note }),
+  }));
+}
+
+/**
+ * Delete a complaint and its stored files.  Points already awarded are kept.
+ * Uploads still queued are dropped; a copy already on the server stays there.
+ */
+export async function deleteComplaint(id: string): Promise<void> {
+  const uris = await runWrite(async (txn) => {
+    const rows = await txn.getAllAsync<{ uri: string }>(
+      'SELECT uri FROM attachments WHERE complaint_id = ?',
+      id,
+    );
+    // Explicit rather than relying on ON DELETE CASCADE, which needs
+    // foreign keys enabled on the transaction's connection
+    await txn.runAsync('DELETE FROM attachments WHERE complaint_id = ?', id);
+    await txn.runAsync('DELETE FROM status_history WHERE complaint_id = ?', id);
+    await txn.runAsync('DELETE FROM outbox WHERE complaint_id = ?', id);
+    await txn.runAsync('DELETE FROM complaints WHERE id = ?', id);
+    return rows.map((row) => row.uri);
+  });
+  deletePhotoFiles(uris);
+}
+
+/**
+ * Move photos of older reports that still point at the camera cache into
+ * durable storage, then delete stored files no report refers to.  Returns
+ * how much was cleaned up and the storage still in use.  Run at app start.
+ */
+export async function reconcilePhotoStorage(): Promise<{
+  adopted: number;
+  deleted: PhotoStorageUsage;
+  remaining: PhotoStorageUsage;
+}> {
+  const db = await getDatabase();
+  const photos = await db.getAllAsync<{ id: number; complaint_id: string; uri: string }>(
+    "SELECT id, complaint_id, uri FROM attachments WHERE kind = 'photo'",
+  );
 
-  // Update profile
-  profile.totalPoints += pointsAwarded;
-  profile.totalReports += 1;
-  profile.streak = newStreak;
-  profile.lastReportDate = now;
-  await saveUserProfile(profile);
+  let adopted = 0;
+  for (const photo of photos) {
+    if (isStoredPhoto(photo.uri) || !photoFileExists(photo.uri)) continue;
+    try {
+      const stored = await storePhoto(photo.uri, photo.complaint_id);
+      await runWrite(async (txn) => {
+        await txn.runAsync('UPDATE attachments SET uri = ? WHERE id = ?', stored.photoUri, photo.id);
+        await txn.runAsync(
+          "DELETE FROM attachments WHERE complaint_id = ? AND kind = 'thumbnail'",
+          photo.complaint_id,
+        );
+        await insertAttachment(txn, photo.complaint_id, 'thumbnail', stored.thumbnailUri);
+      });
+      adopted += 1;
+    } catch (e) {
+      console.warn(`Failed to move the photo of ${photo.complaint_id} to storage:`, e);
+    }
+  }
 
-  return { complaint, profile, pointsAwarded };
+  // Read again: adoption and reports filed meanwhile added references
+  const referenced = await db.getAllAsync<{ uri: string }>('SELECT uri FROM attachments');
+  return { adopted, ...reconcilePhotoFiles(new Set(referenced.map((row) => row.uri))) };
 }
 
 /**
  * Get complaint by ID.
  */
 export async function getComplaintById(id: string): Promise<Complaint | null> {
-  const complaints = await getComplaints();
-  return complaints.find((c) => c.id === id) || null;
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<ComplaintRow>(`${SELECT_COMPLAINTS} WHERE c.id = ?`, id);
+  return row ? rowToComplaint(row) : null;
 }
 
 /**
@@ -257,11 +743,17 @@ export async function getStats(): Promise<{
   categoryCounts: Record<string, number>;
   streak: number;
 }> {
-  const [profile, complaints] = await Promise.all([getUserProfile(), getComplaints()]);
+  const db = await getDatabase();
+  const [profile, rows] = await Promise.all([
+    getUserProfile(),
+    db.getAllAsync<{ waste_category: string; count: number }>(
+      'SELECT waste_category, COUNT(*) AS count FROM complaints GROUP BY waste_category',
+    ),
+  ]);
 
   const categoryCounts: Record<string, number> = {};
-  for (const c of complaints) {
-    categoryCounts[c.wasteCategory] = (categoryCounts[c.wasteCategory] || 0) + 1;
+  for (const row of rows) {
+    categoryCounts[row.waste_category] = row.count;
   }
 
   return {
@@ -272,6 +764,33 @@ export async function getStats(): Promise<{
   };
 }
 
+/**
+ * Number of reports per recognised brand, most reported first.
+ */
+export async function getBrandCounts(): Promise<{ brand: string; count: number }[]> {
+  const db = await getDatabase();
+  return db.getAllAsync<{ brand: string; count: number }>(
+    `SELECT brand, COUNT(*) AS count FROM complaints
+     WHERE brand IS NOT NULL
+     GROUP BY brand
+     ORDER BY count DESC, brand`,
+  );
+}
+
+/**
+ * Number of reports per sub-category within a category.
+ */
+export async function getSubcategoryCounts(category: WasteCategory): Promise<Record<string, number>> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ waste_subcategory: string; count: number }>(
+    `SELECT waste_subcategory, COUNT(*) AS count FROM complaints
+     WHERE waste_category = ? AND waste_subcategory IS NOT NULL
+     GROUP BY waste_subcategory`,
+    category,
+  );
+  return Object.fromEntries(rows.map((row) => [row.waste_subcategory, row.count]));
+}
+
 // ─── Leaderboard ─────────────────────────────────────────────────────────────
 
 export interface LeaderboardEntry {
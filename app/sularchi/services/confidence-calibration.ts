@@ -0,0 +1,123 @@
+/**
+ * Confidence Calibration
+ *
+ * Turns a provider's raw confidence into the probability that its category
+ * is right, using per-provider curves fitted offline from labeled data
+ * (isotonic regression, see `fitCalibrationCurve`).  Results whose
+ * calibrated confidence falls below the abstain threshold are reported as
+ * `unknown` so the user chooses the category.
+ */
+
+import calibrationData from '../data/calibration.json';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface CalibrationCurve {
+  /** `[raw, calibrated]` knots, raw ascending; linear in between */
+  points: [number, number][];
+  /** Labeled data the curve was fitted on */
+  fittedOn: string;
+  samples: number;
+  /** Overrides the table-wide abstain threshold for this provider */
+  abstainThreshold?: number;
+}
+
+export interface CalibrationTable {
+  version: string;
+  /** Calibrated confidence below which a result abstains to `unknown` */
+  abstainThreshold: number;
+  /** Provider id → curve; providers without one keep their raw confidence */
+  providers: Record<string, CalibrationCurve>;
+}
+
+const CALIBRATION = calibrationData as unknown as CalibrationTable;
+
+/** Build-time override of the abstain threshold, for tuning in the field */
+const ABSTAIN_OVERRIDE = Number(process.env.EXPO_PUBLIC_ABSTAIN_THRESHOLD);
+
+// ─── Fitting ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fit a monotone calibration curve with the pool-adjacent-violators
+ * algorithm.  Each pooled block becomes one knot at its mean raw confidence,
+ * with its accuracy Laplace-smoothed so small blocks never claim 0 or 1.
+ */
+export function fitCalibrationCurve(
+  samples: { confidence: number; correct: boolean }[],
+): [number, number][] {
+  const sorted = [...samples].sort((a, b) => a.confidence - b.confidence);
+  const blocks: { rawSum: number; correct: number; count: number }[] = [];
+
+  const accuracy = (b: (typeof blocks)[number]) => (b.correct + 1) / (b.count + 2);
+
+  for (const sample of sorted) {
+    blocks.push({ rawSum: sample.confidence, correct: sample.correct ? 1 : 0, count: 1 });
+    // Merge backwards while accuracy decreases with confidence
+    while (blocks.length > 1 && accuracy(blocks[blocks.length - 2]) >= accuracy(blocks[blocks.length - 1])) {
+      const last = blocks.pop()!;
+      const prev = blocks[blocks.length - 1];
+      prev.rawSum += last.rawSum;
+      prev.correct += last.correct;
+      prev.count += last.count;
+    }
+  }
+
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return blocks.map((b) => [round(b.rawSum / b.count), round(accuracy(b))]);
+}
+
+/**
+ * Lowest calibrated confidence at which the results kept (those at or above
+ * it) are right at least `precision` of the time.  Returns undefined when no
+ * threshold gets there, so the table-wide threshold applies.
+ */
+export function fitAbstainThreshold(
+  samples: { confidence: number; correct: boolean }[],
+  precision: number,
+): number | undefined {
+  const sorted = [...samples].sort((a, b) => b.confidence - a.confidence);
+  let threshold: number | undefined;
+  let correct = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].correct) correct++;
+    // Only cut between distinct confidences
+    if (sorted[i + 1]?.confidence === sorted[i].confidence) continue;
+    if (correct / (i + 1) >= precision) threshold = sorted[i].confidence;
+  }
+  return threshold;
+}
+
+// ─── Calibration ─────────────────────────────────────────────────────────────
+
+/**
+ * Calibrated confidence for a provider's raw confidence.  Providers without
+ * a curve keep their raw confidence.
+ */
+export function calibrateConfidence(provider: string, raw: number): number {
+  const points = CALIBRATION.providers[provider]?.points;
+  return points && points.length > 0 ? applyCalibrationCurve(points, raw) : raw;
+}
+
+/**
+ * Read a raw confidence off a curve.  Outside the fitted range the nearest
+ * knot's value is used.
+ */
+export function applyCalibrationCurve(points: [number, number][], raw: number): number {
+  if (raw <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    if (raw <= x1) {
+      const [x0, y0] = points[i - 1];
+      return y0 + ((raw - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+/**
+ * Calibrated confidence below which a provider's result abstains.
+ */
+export function getAbstainThreshold(provider: string): number {
+  if (Number.isFinite(ABSTAIN_OVERRIDE) && ABSTAIN_OVERRIDE > 0) return ABSTAIN_OVERRIDE;
+  return CALIBRATION.providers[provider]?.abstainThreshold ?? CALIBRATION.abstainThreshold;
+}
@@ -0,0 +1,110 @@
+/**
+ * Correction Learning
+ *
+ * Records the raw Vision labels whenever a user overrides the AI category and
+ * derives per-keyword weights from that history.  The label matcher applies
+ * these weights on top of its static keyword table.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { matchKeywords, type LearnedWeights, type VisionLabel } from './label-matcher';
+import { type WasteCategory } from './waste-classifier';
+
+export interface LabelCorrection {
+  labels: VisionLabel[];
+  /** Category the classifier picked */
+  aiCategory: WasteCategory;
+  /** Category the user confirmed instead */
+  correctedCategory: WasteCategory;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+
+const CORRECTIONS_KEY = '@sularchi/label-corrections';
+
+// ─── Learning Parameters ─────────────────────────────────────────────────────
+
+const MAX_HISTORY = 500; // oldest corrections are dropped beyond this
+const LEARNING_RATE = 0.2; // weight shift per correction, scaled by label score
+const MAX_WEIGHT = 1; // learned weights are clamped to ±MAX_WEIGHT
+
+let cachedWeights: LearnedWeights | null = null;
+
+/**
+ * Derive keyword weights from a correction history.  Every keyword found in a
+ * corrected label shifts toward the confirmed category, and away from the AI
+ * category if that is where it pointed.
+ */
+export function computeLearnedWeights(history: LabelCorrection[]): LearnedWeights {
+  const weights: LearnedWeights = {};
+
+  const adjust = (keyword: string, category: WasteCategory, delta: number) => {
+    const entry = (weights[keyword] ??= {});
+    const next = (entry[category] ?? 0) + delta;
+    entry[category] = Math.max(-MAX_WEIGHT, Math.min(MAX_WEIGHT, next));
+  };
+
+  for (const correction of history) {
+    for (const label of correction.labels) {
+      for (const { keyword, category } of matchKeywords(label.description)) {
+        adjust(keyword, correction.correctedCategory, LEARNING_RATE * label.score);
+        if (category === correction.aiCategory) {
+          adjust(keyword, correction.aiCategory, -LEARNING_RATE * label.score);
+        }
+      }
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Get all recorded corrections, oldest first.
+ */
+export async function getCorrectionHistory(): Promise<LabelCorrection[]> {
+  try {
+    const json = await AsyncStorage.getItem(CORRECTIONS_KEY);
+    if (json) return JSON.parse(json);
+  } catch (e) {
+    console.warn('Failed to load label corrections:', e);
+  }
+  return [];
+}
+
+/**
+ * Record a user correction and refresh the learned weights.
+ */
+export async function recordCorrection(params: {
+  labels: VisionLabel[];
+  aiCategory: WasteCategory;
+  correctedCategory: WasteCategory;
+}): Promise<void> {
+  if (params.labels.length === 0 || params.aiCategory === params.correctedCategory) return;
+
+  const history = await getCorrectionHistory();
+  history.push({ ...params, createdAt: new Date().toISOString() });
+  const trimmed = history.slice(-MAX_HISTORY);
+
+  await AsyncStorage.setItem(CORRECTIONS_KEY, JSON.stringify(trimmed));
+  cachedWeights = computeLearnedWeights(trimmed);
+}
+
+/**
+ * Get the current learned weights (computed once, then cached).
+ */
+export async function getLearnedWeights(): Promise<LearnedWeights> {
+  if (!cachedWeights) {
+    cachedWeights = computeLearnedWeights(await getCorrectionHistory());
+  }
+  return cachedWeights;
+}
+
+/**
+ * Forget all corrections and learned weights.
+ */
+export async function resetLearnedWeights(): Promise<void> {
+  await AsyncStorage.removeItem(CORRECTIONS_KEY);
+  cachedWeights = {};
+}
@@ -0,0 +1,245 @@
+/**
+ * Database
+ *
+ * The app's SQLite database and its versioned migrations.  The schema
+ * version lives in `PRAGMA user_version`; each migration runs once, in its
+ * own transaction, in version order.  Migration 2 moves the data the app
+ * kept in AsyncStorage before the database existed; migration 4 queues
+ * existing reports for upload (see sync-outbox).  All writes go through
+ * `runWrite`, which serializes them.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { openDatabaseAsync, type SQLiteDatabase } from 'expo-sqlite';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface Migration {
+  version: number;
+  description: string;
+  /**
+   * Apply the migration inside its transaction.  May return a cleanup to run
+   * once the transaction has committed (e.g. deleting migrated legacy data).
+   */
+  up(db: SQLiteDatabase): Promise<void | (() => Promise<void>)>;
+}
+
+const DATABASE_NAME = 'sularchi.db';
+
+/** AsyncStorage keys of the data kept before the database existed */
+const LEGACY_COMPLAINTS_KEY = '@sularchi/complaints';
+const LEGACY_PROFILE_KEY = '@sularchi/user-profile';
+
+// ─── Migrations ──────────────────────────────────────────────────────────────
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create complaints, profile and attachments tables',
+    async up(db) {
+      // A complaint's fields live in `data` (JSON); the columns copy the ones
+      // queries filter, sort or group on
+      await db.execAsync(`
+        CREATE TABLE complaints (
+          id TEXT PRIMARY KEY NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          status TEXT NOT NULL,
+          waste_category TEXT NOT NULL,
+          waste_subcategory TEXT,
+          priority TEXT,
+          brand TEXT,
+          points_awarded INTEGER NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX complaints_created_at ON complaints (created_at, id);
+        CREATE INDEX complaints_status ON complaints (status);
+        CREATE INDEX complaints_waste_category ON complaints (waste_category, waste_subcategory);
+
+        CREATE TABLE profile (
+          id TEXT PRIMARY KEY NOT NULL,
+          name TEXT NOT NULL,
+          total_points INTEGER NOT NULL,
+          total_reports INTEGER NOT NULL,
+          streak INTEGER NOT NULL,
+          last_report_date TEXT,
+          joined_at TEXT NOT NULL,
+          rank INTEGER NOT NULL
+        );
+
+        CREATE TABLE attachments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          complaint_id TEXT NOT NULL REFERENCES complaints (id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          uri TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX attachments_complaint_id ON attachments (complaint_id, kind);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Import complaints and profile from AsyncStorage',
+    async up(db) {
+      const [complaintsJson, profileJson] = await Promise.all([
+        AsyncStorage.getItem(LEGACY_COMPLAINTS_KEY),
+        AsyncStorage.getItem(LEGACY_PROFILE_KEY),
+      ]);
+
+      // Imported the same way new data is written, see complaint-store
+      const { insertComplaint, writeProfile } = await import('./complaint-store');
+      for (const complaint of complaintsJson ? JSON.parse(complaintsJson) : []) {
+        await insertComplaint(db, complaint);
+      }
+      if (profileJson) {
+        await writeProfile(db, JSON.parse(profileJson));
+      }
+
+      return () => AsyncStorage.multiRemove([LEGACY_COMPLAINTS_KEY, LEGACY_PROFILE_KEY]);
+    },
+  },
+  {
+    version: 3,
+    description: 'Add the status history of each complaint',
+    async up(db) {
+      // Existing reports start their timeline with being filed by the reporter
+      await db.execAsync(`
+        CREATE TABLE status_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          complaint_id TEXT NOT NULL REFERENCES complaints (id) ON DELETE CASCADE,
+          from_status TEXT,
+          to_status TEXT NOT NULL,
+          at TEXT NOT NULL,
+          actor_kind TEXT NOT NULL,
+          actor_name TEXT NOT NULL,
+          note TEXT
+        );
+        CREATE INDEX status_history_complaint_id ON status_history (complaint_id, at);
+
+        INSERT INTO status_history (complaint_id, from_status, to_status, at, actor_kind, actor_name)
+        SELECT id, NULL, status, created_at, 'reporter', COALESCE((SELECT name FROM profile LIMIT 1), 'Reporter')
+        FROM complaints;
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Add the sync outbox and the sync state of each complaint',
+    async up(db) {
+      // Existing reports are queued as filed, followed by their status
+      // changes in order, the same entries new ones get
+      await db.execAsync(`
+        ALTER TABLE complaints ADD COLUMN server_id TEXT;
+        ALTER TABLE complaints ADD COLUMN sync_state TEXT NOT NULL DEFAULT 'pending';
+        ALTER TABLE complaints ADD COLUMN sync_error TEXT;
+        CREATE UNIQUE INDEX complaints_server_id ON complaints (server_id);
+
+        CREATE TABLE outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          complaint_id TEXT NOT NULL REFERENCES complaints (id) ON DELETE CASCADE,
+          operation TEXT NOT NULL,
+          idempotency_key TEXT NOT NULL UNIQUE,
+          payload TEXT,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT,
+          last_error TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX outbox_complaint_id ON outbox (complaint_id);
+
+        INSERT INTO outbox (complaint_id, operation, idempotency_key, payload, next_attempt_at, created_at)
+        SELECT c.id, 'create', c.id || '-create-' || lower(hex(randomblob(8))),
+          json_set(c.data, '$.status', COALESCE(
+            (SELECT h.to_status FROM status_history h WHERE h.complaint_id = c.id AND h.from_status IS NULL),
+            c.status)),
+          c.created_at, c.created_at
+        FROM complaints c ORDER BY c.created_at, c.id;
+
+        INSERT INTO outbox (complaint_id, operation, idempotency_key, payload, next_attempt_at, created_at)
+        SELECT complaint_id, 'status', complaint_id || '-status-' || lower(hex(randomblob(8))),
+          json_object('from', from_status, 'to', to_status, 'at', at,
+            'actor', json_object('kind', actor_kind, 'name', actor_name), 'note', note),
+          at, at
+        FROM status_history WHERE from_status IS NOT NULL ORDER BY id;
+      `);
+    },
+  },
+];
+
+/**
+ * Bring the database up to the latest schema version.
+ */
+export async function runMigrations(db: SQLiteDatabase, migrations: Migration[] = MIGRATIONS): Promise<number> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  let version = row?.user_version ?? 0;
+
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= version) continue;
+
+    let cleanup: (() => Promise<void>) | undefined;
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      cleanup = (await migration.up(txn)) ?? undefined;
+      // PRAGMA does not take bound parameters
+      await txn.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+    version = migration.version;
+
+    try {
+      await cleanup?.();
+    } catch (e) {
+      console.warn(`Cleanup after migration ${migration.version} failed:`, e);
+    }
+  }
+  return version;
+}
+
+// ─── Connection ──────────────────────────────────────────────────────────────
+
+let databasePromise: Promise<SQLiteDatabase> | null = null;
+
+/**
+ * The migrated database, opened on first use.
+ */
+export function getDatabase(): Promise<SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = await openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+      await runMigrations(db);
+      return db;
+    })();
+    // Let the next call retry instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+// ─── Writes ──────────────────────────────────────────────────────────────────
+
+/** Settles when the last queued write has finished */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run `task` in an exclusive transaction once every write queued before it
+ * has finished.  Writes never interleave, so a read-modify-write inside
+ * `task` cannot lose another write's update, and each write commits
+ * completely or not at all.
+ */
+export function runWrite<T>(task: (txn: SQLiteDatabase) => Promise<T>): Promise<T> {
+  const run = async () => {
+    const db = await getDatabase();
+    let result!: T;
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      result = await task(txn);
+    });
+    return result;
+  };
+
+  const next = writeQueue.then(run, run);
+  // A failed write must not block the ones queued after it
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
@@ -0,0 +1,39 @@
+/**
+ * Device Identity
+ *
+ * A random, install-scoped identifier sent to our own backend services
+ * (e.g. the Vision proxy's per-device rate limits).  It is not derived from
+ * any hardware id and is reset by reinstalling the app.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const DEVICE_ID_KEY = '@sularchi/device-id';
+
+let deviceId: string | null = null;
+
+/**
+ * Get this install's id, creating it on first use.
+ */
+export async function getDeviceId(): Promise<string> {
+  if (deviceId) return deviceId;
+
+  try {
+    const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (stored) {
+      deviceId = stored;
+      return stored;
+    }
+  } catch (e) {
+    console.warn('Failed to load device id:', e);
+  }
+
+  const created = `dev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  deviceId = created;
+  try {
+    await AsyncStorage.setItem(DEVICE_ID_KEY, created);
+  } catch (e) {
+    console.warn('Failed to save device id:', e);
+  }
+  return created;
+}
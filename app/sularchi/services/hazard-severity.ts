@@ -0,0 +1,127 @@
+/**
+ * Hazard Severity
+ *
+ * Follow-up questions for hazardous and e-waste reports, and the severity
+ * computed from the answers.  A syringe in a playground is critical; a dead
+ * battery on a shelf is not.  High and critical reports are urgent.
+ */
+
+import { type WasteCategory } from './waste-classifier';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type HazardFlag = 'leaking' | 'sharp' | 'medical' | 'near-water' | 'near-children';
+
+export type SeverityLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface HazardAssessment {
+  /** Follow-up questions the user answered with yes */
+  flags: HazardFlag[];
+  severity: SeverityLevel;
+  /** High or critical: pinned in My Reports and shown with emergency guidance */
+  urgent: boolean;
+}
+
+export interface HazardQuestion {
+  flag: HazardFlag;
+  icon: string;
+  question: string;
+}
+
+// ─── Questions ───────────────────────────────────────────────────────────────
+
+export const HAZARD_QUESTIONS: HazardQuestion[] = [
+  { flag: 'leaking', icon: '💧', question: 'Is it leaking, spilled or smoking?' },
+  { flag: 'sharp', icon: '🔪', question: 'Are there needles, blades or broken glass?' },
+  { flag: 'medical', icon: '💉', question: 'Is it medical waste (syringes, dressings, medicines)?' },
+  { flag: 'near-water', icon: '🌊', question: 'Is it near a river, lake, drain or well?' },
+  { flag: 'near-children', icon: '🧒', question: 'Is it near a playground, school or where children play?' },
+];
+
+export const SEVERITY_LEVELS: Record<SeverityLevel, { label: string; icon: string; color: string }> = {
+  low: { label: 'Low', icon: '🟢', color: '#2E7D32' },
+  medium: { label: 'Medium', icon: '🟡', color: '#F9A825' },
+  high: { label: 'High', icon: '🟠', color: '#E65100' },
+  critical: { label: 'Critical', icon: '🔴', color: '#B71C1C' },
+};
+
+/**
+ * Whether reports of this category get the follow-up questions.
+ */
+export function needsHazardAssessment(category: WasteCategory): boolean {
+  return category === 'hazardous' || category === 'e-waste';
+}
+
+/**
+ * Flags implied by the classification itself, to pre-answer the questions
+ * (e.g. a `sharps` sub-category is sharp).
+ */
+export function getImpliedHazardFlags(subcategory: string | undefined): HazardFlag[] {
+  return subcategory === 'sharps' ? ['sharp'] : [];
+}
+
+// ─── Scoring ─────────────────────────────────────────────────────────────────
+
+const CATEGORY_SCORE: Partial<Record<WasteCategory, number>> = {
+  hazardous: 2,
+  'e-waste': 1,
+};
+
+const FLAG_SCORE: Record<HazardFlag, number> = {
+  leaking: 2,
+  sharp: 2,
+  medical: 3,
+  'near-water': 2,
+  'near-children': 3,
+};
+
+/** Minimum score for each level above `low` */
+const SEVERITY_THRESHOLDS: [SeverityLevel, number][] = [
+  ['critical', 8],
+  ['high', 5],
+  ['medium', 3],
+];
+
+/**
+ * Assess a hazardous or e-waste report from the user's answers.  Needles or
+ * medical waste where children play, and leaks into water, are always
+ * critical.
+ */
+export function assessHazard(category: WasteCategory, flags: HazardFlag[]): HazardAssessment {
+  const unique = HAZARD_QUESTIONS.map((q) => q.flag).filter((f) => flags.includes(f));
+  const has = (flag: HazardFlag) => unique.includes(flag);
+
+  const score = unique.reduce((sum, flag) => sum + FLAG_SCORE[flag], CATEGORY_SCORE[category] ?? 0);
+  const alwaysCritical =
+    (has('near-children') && (has('sharp') || has('medical'))) || (has('near-water') && has('leaking'));
+
+  const severity = alwaysCritical
+    ? 'critical'
+    : (SEVERITY_THRESHOLDS.find(([, min]) => score >= min)?.[0] ?? 'low');
+  return { flags: unique, severity, urgent: severity === 'high' || severity === 'critical' };
+}
+
+// ─── Guidance ────────────────────────────────────────────────────────────────
+
+const FLAG_GUIDANCE: Record<HazardFlag, string> = {
+  leaking: 'Stay upwind and do not touch the liquid or breathe the fumes.',
+  sharp: 'Do not pick up needles or blades with bare hands, and never try to recap a needle.',
+  medical: 'Medical waste can carry infections — leave it for trained collectors.',
+  'near-water': 'Keep it from reaching the water; tell the water authority if it already has.',
+  'near-children': 'Keep children away and, if you can, stay nearby until it is cordoned off.',
+};
+
+/**
+ * Emergency instructions for an urgent report, most important first.
+ */
+export function getEmergencyGuidance(assessment: HazardAssessment): string[] {
+  if (!assessment.urgent) return [];
+  const guidance = [
+    'Do not handle it yourself. Keep people and pets at a safe distance.',
+    ...assessment.flags.map((flag) => FLAG_GUIDANCE[flag]),
+  ];
+  if (assessment.severity === 'critical') {
+    guidance.push('If anyone is hurt or there is fire or heavy fumes, call the emergency number now.');
+  }
+  return guidance;
+}
@@ -0,0 +1,143 @@
+/**
+ * Image Feature Extraction
+ *
+ * Decodes a captured photo, downsamples it with expo-image-manipulator and
+ * computes simple colour and texture statistics.  Used by the heuristic
+ * classifier when no remote provider is reachable.
+ */
+
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { File as ExpoFile } from 'expo-file-system';
+import { decode as decodeJpeg } from 'jpeg-js';
+
+export interface ImageFeatures {
+  /** Saturation-weighted hue histogram, 12 bins of 30°, normalised to sum 1 */
+  hueHistogram: number[];
+  /** Centre of the strongest hue bin in degrees (0-360) */
+  dominantHue: number;
+  /** Mean HSV value (0-1) */
+  brightness: number;
+  /** Mean HSV saturation (0-1) */
+  saturation: number;
+  /** Share of near-grey pixels (saturation below 0.15) */
+  greyFraction: number;
+  /** Share of pixels on a strong luminance edge (0-1) */
+  edgeDensity: number;
+}
+
+const SAMPLE_SIZE = 64;
+const HUE_BINS = 12;
+const GREY_SATURATION = 0.15;
+const EDGE_THRESHOLD = 0.25;
+
+/**
+ * Convert an RGB triple (0-255) to HSV with hue in degrees.
+ */
+function rgbToHsv(r: number, g: number, b: number): { h: number; s: number; v: number } {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const delta = max - min;
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === rn) h = 60 * (((gn - bn) / delta) % 6);
+    else if (max === gn) h = 60 * ((bn - rn) / delta + 2);
+    else h = 60 * ((rn - gn) / delta + 4);
+  }
+  if (h < 0) h += 360;
+
+  return { h, s: max === 0 ? 0 : delta / max, v: max };
+}
+
+/**
+ * Compute features from decoded RGBA pixels.
+ */
+export function computeImageFeatures(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+): ImageFeatures {
+  const pixelCount = width * height;
+  const histogram = new Array<number>(HUE_BINS).fill(0);
+  const luminance = new Float32Array(pixelCount);
+
+  let brightnessSum = 0;
+  let saturationSum = 0;
+  let greyCount = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    const { h, s, v } = rgbToHsv(r, g, b);
+
+    brightnessSum += v;
+    saturationSum += s;
+    luminance[i] = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+
+    if (s < GREY_SATURATION) {
+      greyCount += 1;
+    } else {
+      histogram[Math.floor(h / (360 / HUE_BINS)) % HUE_BINS] += s;
+    }
+  }
+
+  // Sobel gradient magnitude over the interior pixels
+  let edgeCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => luminance[(y + dy) * width + (x + dx)];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      if (Math.sqrt(gx * gx + gy * gy) > EDGE_THRESHOLD) {
+        edgeCount += 1;
+      }
+    }
+  }
+
+  const histogramTotal = histogram.reduce((sum, n) => sum + n, 0);
+  const hueHistogram = histogram.map((n) => (histogramTotal > 0 ? n / histogramTotal : 0));
+  const dominantBin = hueHistogram.indexOf(Math.max(...hueHistogram));
+  const interiorCount = Math.max(1, (width - 2) * (height - 2));
+
+  return {
+    hueHistogram,
+    dominantHue: dominantBin * (360 / HUE_BINS) + 360 / HUE_BINS / 2,
+    brightness: brightnessSum / pixelCount,
+    saturation: saturationSum / pixelCount,
+    greyFraction: greyCount / pixelCount,
+    edgeDensity: edgeCount / interiorCount,
+  };
+}
+
+/**
+ * Downsample a local image to `size`×`size` and decode it to RGBA pixels.
+ */
+export async function loadImageSample(
+  imageUri: string,
+  size: number,
+): Promise<{ data: Uint8Array; width: number; height: number }> {
+  const sample = await manipulateAsync(
+    imageUri,
+    [{ resize: { width: size, height: size } }],
+    { format: SaveFormat.JPEG, compress: 0.9 },
+  );
+
+  const sampleFile = new ExpoFile(sample.uri);
+  const bytes = await sampleFile.bytes();
+  sampleFile.delete();
+
+  const decoded = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+  return { data: decoded.data, width: decoded.width, height: decoded.height };
+}
+
+/**
+ * Downsample and decode a local image, then extract its features.
+ */
+export async function extractImageFeatures(imageUri: string): Promise<ImageFeatures> {
+  const { data, width, height } = await loadImageSample(imageUri, SAMPLE_SIZE);
+  return computeImageFeatures(data, width, height);
+}
@@ -0,0 +1,154 @@
+/**
+ * Image Preprocessing
+ *
+ * Prepares a captured photo for upload to a remote classifier: downscales it
+ * to a target long edge, re-encodes it as JPEG (which drops EXIF metadata such
+ * as GPS position and device details) and reads the result as base64 natively.
+ * Payload size and latency of every upload are kept for tuning.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Image } from 'react-native';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { File as ExpoFile } from 'expo-file-system';
+
+export interface PreprocessOptions {
+  /** Longest edge of the uploaded image in pixels; smaller images are kept as-is */
+  maxLongEdge: number;
+  /** JPEG quality (0-1) */
+  quality: number;
+}
+
+export interface PreparedImage {
+  base64: string;
+  width: number;
+  height: number;
+  /** Size of the captured file in bytes */
+  originalBytes: number;
+  /** Size of the re-encoded JPEG in bytes (before base64) */
+  payloadBytes: number;
+  /** Time spent resizing, re-encoding and base64-encoding */
+  preprocessMs: number;
+}
+
+export interface UploadMetrics {
+  /** Classifier provider id that made the request */
+  provider: string;
+  originalBytes: number;
+  payloadBytes: number;
+  width: number;
+  height: number;
+  preprocessMs: number;
+  /** Round trip of the classification request, including retries */
+  requestMs: number;
+  /** Number of requests made, 1 unless retried */
+  attempts: number;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+/** Defaults, overridable per build to tune payload size against accuracy */
+export const PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxLongEdge: Number(process.env.EXPO_PUBLIC_UPLOAD_MAX_EDGE) || 1024,
+  quality: Number(process.env.EXPO_PUBLIC_UPLOAD_JPEG_QUALITY) || 0.7,
+};
+
+const METRICS_KEY = '@sularchi/upload-metrics';
+const MAX_METRICS = 100;
+
+// ─── Preprocessing ───────────────────────────────────────────────────────────
+
+/**
+ * Resize, re-encode and base64-encode a local image for upload.
+ */
+export async function prepareImageForUpload(
+  imageUri: string,
+  options: PreprocessOptions = PREPROCESS_OPTIONS,
+): Promise<PreparedImage> {
+  const startedAt = Date.now();
+  const original = await Image.getSize(imageUri);
+  const longEdge = Math.max(original.width, original.height);
+
+  // Only ever downscale; resizing one edge keeps the aspect ratio
+  const actions =
+    longEdge > options.maxLongEdge
+      ? [
+          {
+            resize:
+              original.width >= original.height
+                ? { width: options.maxLongEdge }
+                : { height: options.maxLongEdge },
+          },
+        ]
+      : [];
+
+  const encoded = await manipulateAsync(imageUri, actions, {
+    format: SaveFormat.JPEG,
+    compress: options.quality,
+  });
+
+  const encodedFile = new ExpoFile(encoded.uri);
+  const base64 = await encodedFile.base64();
+  const payloadBytes = encodedFile.size;
+  encodedFile.delete();
+
+  return {
+    base64,
+    width: encoded.width,
+    height: encoded.height,
+    originalBytes: new ExpoFile(imageUri).size,
+    payloadBytes,
+    preprocessMs: Date.now() - startedAt,
+  };
+}
+
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+
+/**
+ * Store the metrics of one upload, keeping the most recent MAX_METRICS.
+ */
+export async function recordUploadMetrics(metrics: UploadMetrics): Promise<void> {
+  try {
+    const history = await getUploadMetrics();
+    history.push(metrics);
+    await AsyncStorage.setItem(METRICS_KEY, JSON.stringify(history.slice(-MAX_METRICS)));
+  } catch (e) {
+    console.warn('Failed to record upload metrics:', e);
+  }
+}
+
+/**
+ * Get recorded upload metrics, oldest first.
+ */
+export async function getUploadMetrics(): Promise<UploadMetrics[]> {
+  try {
+    const json = await AsyncStorage.getItem(METRICS_KEY);
+    if (json) return JSON.parse(json);
+  } catch (e) {
+    console.warn('Failed to load upload metrics:', e);
+  }
+  return [];
+}
+
+/**
+ * Average payload size and latency over the recorded uploads.
+ */
+export async function getUploadMetricsSummary(): Promise<{
+  count: number;
+  avgPayloadBytes: number;
+  avgPreprocessMs: number;
+  avgRequestMs: number;
+}> {
+  const history = await getUploadMetrics();
+  const avg = (pick: (m: UploadMetrics) => number) =>
+    history.length > 0 ? Math.round(history.reduce((sum, m) => sum + pick(m), 0) / history.length) : 0;
+
+  return {
+    count: history.length,
+    avgPayloadBytes: avg((m) => m.payloadBytes),
+    avgPreprocessMs: avg((m) => m.preprocessMs),
+    avgRequestMs: avg((m) => m.requestMs),
+  };
+}
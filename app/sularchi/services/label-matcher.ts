@@ -0,0 +1,246 @@
+/**
+ * Label Matcher
+ *
+ * Maps Vision-style label annotations onto waste categories with the weighted
+ * token/phrase rules of the active ruleset and the weights learned from
+ * corrections.  `npm run test:labels` checks it against fixtures/label-sets.json.
+ */
+
+import { type CategoryCandidate, type WasteCategory } from './waste-classifier';
+import { getActiveRuleset, type CategoryDefinition, type WasteRuleset } from './waste-taxonomy';
+
+export interface VisionLabel {
+  description: string;
+  score: number; // 0-1
+}
+
+/**
+ * Additive per-keyword adjustments learned from corrections.  A negative
+ * weight weakens the keyword's own category; a positive weight on another
+ * category lets the keyword vote for it too.
+ */
+export type LearnedWeights = Record<string, Partial<Record<WasteCategory, number>>>;
+
+/** Number of ranked candidates kept on a result */
+export const TOP_K = 3;
+
+/**
+ * Token-level synonyms, applied before plural normalisation.
+ */
+const SYNONYMS: Record<string, string> = {
+  aluminium: 'aluminum',
+  clothes: 'clothing',
+  apparel: 'clothing',
+  cellphone: 'phone',
+  tshirt: 't shirt',
+  trousers: 'pants',
+  tyre: 'tire',
+  glasses: 'eyeglasses', // Vision's "Glasses" is eyewear, not glass
+  styrene: 'polystyrene',
+};
+
+/** Words ending in "s" that are already singular */
+const SINGULAR_EXCEPTIONS = new Set(['glass', 'pants', 'jeans', 'headphones', 'electronics', 'dress', 'gas', 'bus']);
+
+function singularize(token: string): string {
+  if (token.length <= 3 || SINGULAR_EXCEPTIONS.has(token)) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('ves')) return `${token.slice(0, -3)}f`;
+  if (/(ss|x|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !/(ss|us|is)$/.test(token)) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Split text into normalised tokens: lower-cased, synonyms expanded, plurals
+ * reduced to their singular form.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .flatMap((token) => (SYNONYMS[token] ?? token).split(' '))
+    .map(singularize);
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((p, j) => tokens[i + j] === p)) return true;
+  }
+  return false;
+}
+
+interface CompiledRule {
+  category: WasteCategory;
+  keywords: { keyword: string; tokens: string[]; weight: number }[];
+  negative: string[][];
+}
+
+let compiledFor: WasteRuleset | null = null;
+let compiledRules: CompiledRule[] = [];
+
+/**
+ * Tokenize the active ruleset's keywords once per ruleset.
+ */
+function getCompiledRules(): CompiledRule[] {
+  const ruleset = getActiveRuleset();
+  if (compiledFor !== ruleset) {
+    compiledRules = (Object.entries(ruleset.categories) as [WasteCategory, CategoryDefinition][])
+      .filter(([, def]) => Object.keys(def.keywords).length > 0)
+      .map(([category, def]) => ({
+        category,
+        keywords: Object.entries(def.keywords).map(([keyword, weight]) => ({
+          keyword,
+          tokens: tokenize(keyword),
+          weight,
+        })),
+        negative: (def.negative ?? []).map(tokenize),
+      }));
+    compiledFor = ruleset;
+  }
+  return compiledRules;
+}
+
+/**
+ * Find the strongest keyword per category in a label description.
+ * Categories blocked by a negative term are skipped.
+ */
+export function matchKeywords(
+  description: string,
+): { keyword: string; category: WasteCategory; weight: number }[] {
+  const tokens = tokenize(description);
+  const matches: { keyword: string; category: WasteCategory; weight: number }[] = [];
+
+  for (const rule of getCompiledRules()) {
+    if (rule.negative.some((neg) => containsPhrase(tokens, neg))) continue;
+
+    let best: { keyword: string; weight: number } | null = null;
+    for (const kw of rule.keywords) {
+      if ((!best || kw.weight > best.weight) && containsPhrase(tokens, kw.tokens)) {
+        best = { keyword: kw.keyword, weight: kw.weight };
+      }
+    }
+    if (best) {
+      matches.push({ ...best, category: rule.category });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Map an array of Vision API label descriptions to a waste category.
+ * Each label adds `score × keyword weight` (plus any learned adjustment) to
+ * the categories it matches; categories are ranked by that sum.  The raw
+ * confidence is the best contributing label score scaled by the category's
+ * share of all votes, so contested label sets score lower.  It is not a
+ * probability — see confidence-calibration.  Returns the winner plus the top
+ * candidates; with no matching label the winner is `unknown` at 0.
+ */
+export function mapLabelsToCategory(
+  labels: VisionLabel[],
+  learned: LearnedWeights = {},
+): {
+  category: WasteCategory;
+  confidence: number;
+  bestLabel: string;
+  alternatives: CategoryCandidate[];
+} {
+  const scores = {} as Record<WasteCategory, { total: number; maxScore: number; bestLabel: string }>;
+
+  for (const rule of getCompiledRules()) {
+    scores[rule.category] = { total: 0, maxScore: 0, bestLabel: '' };
+  }
+
+  const vote = (category: WasteCategory, weight: number, label: VisionLabel) => {
+    const s = scores[category];
+    if (!s || weight <= 0) return;
+    s.total += label.score * weight;
+    if (label.score > s.maxScore) {
+      s.maxScore = label.score;
+      s.bestLabel = label.description;
+    }
+  };
+
+  for (const label of labels) {
+    const matches = matchKeywords(label.description);
+    const matched = new Set(matches.map((m) => m.category));
+
+    for (const { keyword, category, weight } of matches) {
+      const adjustments = learned[keyword] ?? {};
+      vote(category, weight + (adjustments[category] ?? 0), label);
+
+      // Learned associations with categories the keyword does not belong to
+      for (const [other, learnedWeight] of Object.entries(adjustments) as [WasteCategory, number][]) {
+        if (!matched.has(other)) {
+          vote(other, learnedWeight, label);
+        }
+      }
+    }
+  }
+
+  const ranked = (Object.keys(scores) as WasteCategory[])
+    .map((category) => ({ category, ...scores[category] }))
+    .filter((s) => s.total > 0)
+    .sort((a, b) => b.total - a.total || b.maxScore - a.maxScore);
+
+  if (ranked.length === 0) {
+    return {
+      category: 'unknown',
+      confidence: 0,
+      bestLabel: labels[0]?.description || '',
+      alternatives: [{ category: 'unknown', confidence: 0 }],
+    };
+  }
+
+  const voteTotal = ranked.reduce((sum, s) => sum + s.total, 0);
+  const rawConfidence = (s: (typeof ranked)[number]) => roundConfidence(s.maxScore * (s.total / voteTotal));
+
+  const [best] = ranked;
+  return {
+    category: best.category,
+    confidence: rawConfidence(best),
+    bestLabel: best.bestLabel,
+    alternatives: ranked.slice(0, TOP_K).map((s) => ({
+      category: s.category,
+      confidence: rawConfidence(s),
+    })),
+  };
+}
+
+export function roundConfidence(value: number): number {
+  return Math.min(1, Math.max(0, Math.round(value * 100) / 100));
+}
+
+/**
+ * Pick the best-matching sub-category of `category` from the labels, scored
+ * the same way as categories.  Returns null when none of its keywords match.
+ */
+export function matchSubcategory(
+  category: WasteCategory,
+  labels: VisionLabel[],
+): { subcategory: string; confidence: number } | null {
+  const subcategories = getActiveRuleset().categories[category]?.subcategories ?? {};
+  const labelTokens = labels.map((label) => ({ label, tokens: tokenize(label.description) }));
+
+  let best: { subcategory: string; total: number; maxScore: number } | null = null;
+  for (const [id, sub] of Object.entries(subcategories)) {
+    const keywords = Object.entries(sub.keywords).map(([kw, weight]) => ({ tokens: tokenize(kw), weight }));
+    let total = 0;
+    let maxScore = 0;
+
+    for (const { label, tokens } of labelTokens) {
+      const weight = Math.max(0, ...keywords.filter((kw) => containsPhrase(tokens, kw.tokens)).map((kw) => kw.weight));
+      if (weight > 0) {
+        total += label.score * weight;
+        maxScore = Math.max(maxScore, label.score);
+      }
+    }
+
+    if (total > 0 && (!best || total > best.total)) {
+      best = { subcategory: id, total, maxScore };
+    }
+  }
+
+  return best ? { subcategory: best.subcategory, confidence: roundConfidence(best.maxScore) } : null;
+}
@@ -45,6 +45,7 @@ export async function getCurrentLocation(): Promise<GeoLocation | null> {
           address.region,
         ].filter(Boolean);
         geo.address = parts.join(', ') || undefined;
+        geo.city = address.city || undefined;
       }
     } catch (geocodeError) {
       console.warn('Reverse geocoding failed:', geocodeError);
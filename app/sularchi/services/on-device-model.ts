@@ -0,0 +1,88 @@
+/**
+ * On-Device Model Runtime
+ *
+ * Runs a quantized TensorFlow Lite image classifier on the CPU via
+ * react-native-fast-tflite.  Knows nothing about waste categories — it only
+ * turns an image into per-label scores; the mapping lives in waste-classifier.
+ */
+
+import { TurboModuleRegistry } from 'react-native';
+import type { TensorflowModel } from 'react-native-fast-tflite';
+import { loadImageSample } from './image-features';
+
+export interface OnDeviceModelSpec {
+  /** Model identifier, bumped whenever the weights or labels change */
+  version: string;
+  /** Square input edge in pixels */
+  inputSize: number;
+  /** Output class labels, in the model's output order */
+  labels: readonly string[];
+}
+
+/**
+ * Location of the `.tflite` file (a `file://` path or a URL).  The model is
+ * not bundled with the app, so the provider is off until this is set.
+ */
+const MODEL_URL = process.env.EXPO_PUBLIC_ON_DEVICE_MODEL_URL || '';
+
+let modelPromise: Promise<TensorflowModel> | null = null;
+
+/**
+ * Whether the on-device model can run here: one is configured, and the
+ * native TFLite module is present (Expo Go lacks it).
+ */
+export function isOnDeviceModelAvailable(): boolean {
+  return MODEL_URL.length > 0 && TurboModuleRegistry.get('Tflite') != null;
+}
+
+/**
+ * Load the model once and reuse it.  The native module is imported lazily so
+ * Expo Go (which lacks it) can still load the rest of the classifier.
+ */
+function loadModel(): Promise<TensorflowModel> {
+  if (!modelPromise) {
+    modelPromise = import('react-native-fast-tflite')
+      .then(({ loadTensorflowModel }) => loadTensorflowModel({ url: MODEL_URL }, 'default'))
+      .catch((error) => {
+        modelPromise = null;
+        throw error;
+      });
+  }
+  return modelPromise;
+}
+
+/**
+ * Classify an image with the on-device model.
+ * Returns one score (0-1) per label, sorted best first.
+ */
+export async function runOnDeviceModel(
+  imageUri: string,
+  spec: OnDeviceModelSpec,
+): Promise<{ label: string; score: number }[]> {
+  const model = await loadModel();
+  const { data, width, height } = await loadImageSample(imageUri, spec.inputSize);
+
+  // Drop the alpha channel: the model takes packed uint8 RGB
+  const input = new Uint8Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    input[i * 3] = data[i * 4];
+    input[i * 3 + 1] = data[i * 4 + 1];
+    input[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  const [output] = await model.run([input]);
+  const isQuantized = model.outputs[0]?.dataType === 'uint8';
+
+  if (!output || output.length !== spec.labels.length) {
+    throw new Error(
+      `On-device model ${spec.version} returned ${output?.length ?? 0} scores for ${spec.labels.length} labels`,
+    );
+  }
+
+  return spec.labels
+    .map((label, i) => ({
+      label,
+      score: isQuantized ? Number(output[i]) / 255 : Number(output[i]),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
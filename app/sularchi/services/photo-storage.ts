@@ -0,0 +1,137 @@
+/**
+ * Photo Storage
+ *
+ * Keeps report photos in the app's document directory, where the OS does not
+ * purge them like the camera's cache, each with a small thumbnail for lists.
+ * Files no report refers to any more are removed by `reconcilePhotoFiles`.
+ */
+
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { Directory, File as ExpoFile, Paths } from 'expo-file-system';
+
+export interface StoredPhoto {
+  photoUri: string;
+  thumbnailUri: string;
+}
+
+export interface PhotoStorageUsage {
+  files: number;
+  bytes: number;
+}
+
+const PHOTOS_DIR = new Directory(Paths.document, 'photos');
+
+/** Long edge of list thumbnails, in pixels */
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_QUALITY = 0.6;
+
+/** Newer files may belong to a report that is still being filed */
+const ORPHAN_GRACE_MS = 10 * 60 * 1000;
+
+function ensurePhotosDir(): void {
+  PHOTOS_DIR.create({ intermediates: true, idempotent: true });
+}
+
+/**
+ * Whether a URI already points into durable photo storage.
+ */
+export function isStoredPhoto(uri: string): boolean {
+  return uri.startsWith(PHOTOS_DIR.uri);
+}
+
+/**
+ * Whether a file exists at `uri`, e.g. a camera cache path the OS may have
+ * purged.
+ */
+export function photoFileExists(uri: string): boolean {
+  try {
+    return new ExpoFile(uri).exists;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copy a captured photo into durable storage under `name` and generate its
+ * thumbnail.  The source is left in place.
+ */
+export async function storePhoto(sourceUri: string, name: string): Promise<StoredPhoto> {
+  ensurePhotosDir();
+  const photo = new ExpoFile(PHOTOS_DIR, `${name}.jpg`);
+  const thumbnail = new ExpoFile(PHOTOS_DIR, `${name}-thumb.jpg`);
+
+  try {
+    new ExpoFile(sourceUri).copy(photo);
+    const resized = await manipulateAsync(photo.uri, [{ resize: { width: THUMBNAIL_WIDTH } }], {
+      format: SaveFormat.JPEG,
+      compress: THUMBNAIL_QUALITY,
+    });
+    new ExpoFile(resized.uri).move(thumbnail);
+  } catch (error) {
+    deletePhotoFiles([photo.uri, thumbnail.uri]);
+    throw error;
+  }
+
+  return { photoUri: photo.uri, thumbnailUri: thumbnail.uri };
+}
+
+/**
+ * Delete stored files.  Files outside photo storage and missing files are
+ * ignored.
+ */
+export function deletePhotoFiles(uris: string[]): void {
+  for (const uri of uris) {
+    if (!isStoredPhoto(uri)) continue;
+    try {
+      const file = new ExpoFile(uri);
+      if (file.exists) file.delete();
+    } catch (e) {
+      console.warn(`Failed to delete ${uri}:`, e);
+    }
+  }
+}
+
+/**
+ * Delete every stored file not in `referencedUris`, except very recent ones,
+ * and report what is left.
+ */
+export function reconcilePhotoFiles(
+  referencedUris: Set<string>,
+): { deleted: PhotoStorageUsage; remaining: PhotoStorageUsage } {
+  const deleted: PhotoStorageUsage = { files: 0, bytes: 0 };
+  const remaining: PhotoStorageUsage = { files: 0, bytes: 0 };
+  if (!PHOTOS_DIR.exists) return { deleted, remaining };
+
+  for (const entry of PHOTOS_DIR.list()) {
+    if (!(entry instanceof ExpoFile)) continue;
+    const size = entry.size ?? 0;
+    const recent = Date.now() - (entry.modificationTime ?? 0) < ORPHAN_GRACE_MS;
+    if (referencedUris.has(entry.uri) || recent) {
+      remaining.files += 1;
+      remaining.bytes += size;
+      continue;
+    }
+    try {
+      entry.delete();
+      deleted.files += 1;
+      deleted.bytes += size;
+    } catch (e) {
+      console.warn(`Failed to delete orphaned ${entry.uri}:`, e);
+    }
+  }
+  return { deleted, remaining };
+}
+
+/**
+ * Number and total size of the stored photos and thumbnails.
+ */
+export function getPhotoStorageUsage(): PhotoStorageUsage {
+  const usage: PhotoStorageUsage = { files: 0, bytes: 0 };
+  if (!PHOTOS_DIR.exists) return usage;
+  for (const entry of PHOTOS_DIR.list()) {
+    if (!(entry instanceof ExpoFile)) continue;
+    usage.files += 1;
+    usage.bytes += entry.size ?? 0;
+  }
+  return usage;
+}
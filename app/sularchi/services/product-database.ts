@@ -0,0 +1,212 @@
+/**
+ * Product Database
+ *
+ * Maps EAN/UPC barcodes to the packaging material of the product.  No
+ * products are bundled: barcode scanning needs EXPO_PUBLIC_PRODUCT_DB_URL,
+ * from which the database is downloaded and kept in storage, replacing the
+ * bundled (empty) one until the app ships something newer.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import bundledDatabaseData from '../data/products.json';
+import { type WasteCategory } from './waste-classifier';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ProductEntry {
+  name: string;
+  brand?: string;
+  /** Human-readable packaging, e.g. "PET bottle" */
+  packaging: string;
+  category: WasteCategory;
+  subcategory?: string;
+}
+
+export interface ProductDatabase {
+  schemaVersion: number;
+  /** Content version (`YYYY.MM.patch`), compared to pick the newest */
+  version: string;
+  /** Normalized EAN-13 / EAN-8 → product */
+  products: Record<string, ProductEntry>;
+}
+
+export const PRODUCT_DB_SCHEMA_VERSION = 1;
+
+const CATEGORY_IDS: WasteCategory[] = [
+  'plastic', 'paper', 'glass', 'metal', 'organic',
+  'e-waste', 'textile', 'hazardous', 'unknown',
+];
+
+// ─── Barcodes ────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize a scanned code: UPC-A (12 digits) becomes the equivalent EAN-13.
+ * Returns null for anything that is not a well-formed EAN-8/EAN-13.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  let code = raw.trim();
+  if (!/^\d+$/.test(code)) return null;
+  if (code.length === 12) code = `0${code}`;
+  if (code.length !== 8 && code.length !== 13) return null;
+
+  // GS1 check digit: weights 3,1,3,1… from the right, excluding the check digit
+  const digits = code.split('').map(Number);
+  const check = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check ? code : null;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Check that `data` is a well-formed product database.
+ */
+export function validateProductDatabase(
+  data: unknown,
+): { valid: true; database: ProductDatabase } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const isObject = (v: unknown): v is Record<string, any> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isString = (v: unknown) => typeof v === 'string' && v.length > 0;
+
+  if (!isObject(data)) {
+    return { valid: false, errors: ['product database must be an object'] };
+  }
+  if (data.schemaVersion !== PRODUCT_DB_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${PRODUCT_DB_SCHEMA_VERSION}, got ${String(data.schemaVersion)}`);
+  }
+  if (!isString(data.version)) errors.push('version must be a non-empty string');
+
+  if (!isObject(data.products)) {
+    errors.push('products must be an object');
+  } else {
+    for (const [code, product] of Object.entries(data.products)) {
+      const at = `products.${code}`;
+      if (normalizeBarcode(code) !== code) errors.push(`${at} is not a valid EAN-8/EAN-13`);
+      if (!isObject(product)) {
+        errors.push(`${at} must be an object`);
+        continue;
+      }
+      for (const field of ['name', 'packaging']) {
+        if (!isString(product[field])) errors.push(`${at}.${field} must be a non-empty string`);
+      }
+      if (!CATEGORY_IDS.includes(product.category)) {
+        errors.push(`${at}.category is not a known waste category`);
+      }
+      for (const field of ['brand', 'subcategory']) {
+        if (product[field] !== undefined && !isString(product[field])) {
+          errors.push(`${at}.${field} must be a non-empty string`);
+        }
+      }
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, database: data as unknown as ProductDatabase };
+}
+
+/**
+ * Compare `YYYY.MM.patch` style versions numerically.
+ */
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// ─── Active Database ─────────────────────────────────────────────────────────
+
+const PRODUCT_DB_KEY = '@sularchi/product-db';
+const PRODUCT_DB_URL = process.env.EXPO_PUBLIC_PRODUCT_DB_URL || '';
+
+const bundled = validateProductDatabase(bundledDatabaseData);
+if (!bundled.valid) {
+  throw new Error(`Invalid bundled product database: ${bundled.errors.join('; ')}`);
+}
+const BUNDLED_DATABASE = bundled.database;
+
+let activeDatabase: ProductDatabase = BUNDLED_DATABASE;
+
+/**
+ * Whether a product database can be downloaded, without which no barcode is
+ * recognised.
+ */
+export function isProductDatabaseAvailable(): boolean {
+  return PRODUCT_DB_URL.length > 0;
+}
+
+/**
+ * The product database currently used for lookups.
+ */
+export function getProductDatabase(): ProductDatabase {
+  return activeDatabase;
+}
+
+/**
+ * Find the product for a scanned barcode.
+ */
+export function lookupBarcode(raw: string): ({ barcode: string } & ProductEntry) | null {
+  const barcode = normalizeBarcode(raw);
+  const product = barcode ? activeDatabase.products[barcode] : undefined;
+  return barcode && product ? { barcode, ...product } : null;
+}
+
+/**
+ * Install a database if it is valid and newer than the active one, and
+ * keep it for future launches.  Returns whether it was installed.
+ */
+export async function installProductDatabase(data: unknown): Promise<boolean> {
+  const result = validateProductDatabase(data);
+  if (!result.valid) {
+    throw new Error(`Invalid product database: ${result.errors.join('; ')}`);
+  }
+  if (compareVersions(result.database.version, activeDatabase.version) <= 0) {
+    return false;
+  }
+  activeDatabase = result.database;
+  await AsyncStorage.setItem(PRODUCT_DB_KEY, JSON.stringify(result.database));
+  return true;
+}
+
+/**
+ * Restore a previously downloaded database when it is newer than the
+ * bundled one.  Call once at app start.
+ */
+export async function loadProductDatabase(): Promise<ProductDatabase> {
+  try {
+    const json = await AsyncStorage.getItem(PRODUCT_DB_KEY);
+    const stored = json ? validateProductDatabase(JSON.parse(json)) : null;
+    if (stored?.valid && compareVersions(stored.database.version, BUNDLED_DATABASE.version) > 0) {
+      activeDatabase = stored.database;
+    }
+  } catch (e) {
+    console.warn('Failed to load product database:', e);
+  }
+  return activeDatabase;
+}
+
+/**
+ * Download the latest database from EXPO_PUBLIC_PRODUCT_DB_URL.  Returns
+ * whether a newer database was installed.
+ */
+export async function refreshProductDatabase(): Promise<boolean> {
+  if (!PRODUCT_DB_URL) {
+    console.warn('EXPO_PUBLIC_PRODUCT_DB_URL is not set, so barcode scanning is off.');
+    return false;
+  }
+  try {
+    const response = await fetch(PRODUCT_DB_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await installProductDatabase(await response.json());
+  } catch (e) {
+    console.warn('Failed to refresh product database:', e);
+    return false;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Recycling Codes
+ *
+ * Parses material identification codes out of OCR text: plastic resin codes
+ * ("PET 1", "HDPE", ♳–♹), and the EU packaging codes for paper ("PAP 20"),
+ * glass ("GL 70") and metal ("FE 40", "ALU 41").  A printed code is much
+ * stronger evidence of the material than anything in the photo itself.
+ */
+
+import { type WasteCategory } from './waste-classifier';
+
+export interface RecyclingCode {
+  /** Canonical form, e.g. `PET 1` or `PAP 20` */
+  code: string;
+  category: WasteCategory;
+  /** Sub-category id in the default ruleset, when the code pins one down */
+  subcategory?: string;
+}
+
+// ─── Code Tables ─────────────────────────────────────────────────────────────
+
+/** Resin identification codes 1-7 */
+const RESIN_CODES: Record<number, RecyclingCode> = {
+  1: { code: 'PET 1', category: 'plastic', subcategory: 'pet-1' },
+  2: { code: 'HDPE 2', category: 'plastic', subcategory: 'hdpe-2' },
+  3: { code: 'PVC 3', category: 'plastic', subcategory: 'pvc-3' },
+  4: { code: 'LDPE 4', category: 'plastic', subcategory: 'ldpe-4' },
+  5: { code: 'PP 5', category: 'plastic', subcategory: 'pp-5' },
+  6: { code: 'PS 6', category: 'plastic', subcategory: 'ps-6' },
+  7: { code: 'OTHER 7', category: 'plastic' },
+};
+
+const RESIN_ABBREVIATIONS: Record<string, number> = {
+  PET: 1,
+  PETE: 1,
+  HDPE: 2,
+  PEHD: 2,
+  PVC: 3,
+  LDPE: 4,
+  PELD: 4,
+  PP: 5,
+  PS: 6,
+  OTHER: 7,
+};
+
+/**
+ * EU packaging codes (Decision 97/129/EC) outside the resin range, keyed by
+ * number.  The abbreviation only has to agree on the material family.
+ */
+const PACKAGING_CODES: Record<number, RecyclingCode & { family: string }> = {
+  20: { code: 'PAP 20', family: 'PAP', category: 'paper' },
+  21: { code: 'PAP 21', family: 'PAP', category: 'paper' },
+  22: { code: 'PAP 22', family: 'PAP', category: 'paper' },
+  40: { code: 'FE 40', family: 'FE', category: 'metal' },
+  41: { code: 'ALU 41', family: 'ALU', category: 'metal' },
+  70: { code: 'GL 70', family: 'GL', category: 'glass', subcategory: 'clear' },
+  71: { code: 'GL 71', family: 'GL', category: 'glass', subcategory: 'green' },
+  72: { code: 'GL 72', family: 'GL', category: 'glass', subcategory: 'brown' },
+};
+
+/** ♳ (U+2673) … ♹ (U+2679) are resin codes 1-7 */
+const RESIN_SYMBOL_BASE = 0x2673;
+
+// Abbreviation with a number on either side ("PET 1", "1 PETE", "PAP-20", "GL#70")
+const CODE_WITH_NUMBER =
+  /\b(PETE?|HDPE|PEHD|PVC|LDPE|PELD|PP|PS|OTHER|PAP|FE|ALU|GL)\s*[-#]?\s*(\d{1,2})\b|\b(\d{1,2})\s*[-#]?\s*(PETE?|HDPE|PEHD|PVC|LDPE|PELD|PP|PS|OTHER)\b/g;
+// Abbreviations that are unambiguous without a number
+const STANDALONE_CODE = /\b(PETE|HDPE|PEHD|LDPE|PELD)\b/g;
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * The code an abbreviation and its printed number stand for.  A number that
+ * contradicts the abbreviation ("PET 2") makes the code ambiguous: no code.
+ */
+function codeFor(abbreviation: string, num: number | null): RecyclingCode | null {
+  const resin = RESIN_ABBREVIATIONS[abbreviation];
+  if (resin !== undefined) return num === null || num === resin ? RESIN_CODES[resin] : null;
+
+  const packaging = num !== null ? PACKAGING_CODES[num] : undefined;
+  if (packaging && packaging.family === abbreviation) {
+    const { family: _family, ...code } = packaging;
+    return code;
+  }
+  return null;
+}
+
+/**
+ * Find every recycling code in OCR text, without duplicates.  Resin symbols
+ * come first, then written codes.
+ */
+export function parseRecyclingCodes(text: string): RecyclingCode[] {
+  const found: RecyclingCode[] = [];
+  const add = (code: RecyclingCode | null) => {
+    if (code && !found.some((f) => f.code === code.code)) found.push(code);
+  };
+
+  for (const char of text) {
+    const offset = (char.codePointAt(0) ?? 0) - RESIN_SYMBOL_BASE;
+    if (offset >= 0 && offset < 7) add(RESIN_CODES[offset + 1]);
+  }
+
+  const upper = text.toUpperCase();
+  // Text the numbered matches covered, so a contradicted abbreviation is
+  // not read again on its own
+  const covered: [number, number][] = [];
+  for (const match of upper.matchAll(CODE_WITH_NUMBER)) {
+    const abbreviation = match[1] ?? match[4];
+    const num = Number(match[2] ?? match[3]);
+    covered.push([match.index, match.index + match[0].length]);
+    add(codeFor(abbreviation, num));
+  }
+  for (const match of upper.matchAll(STANDALONE_CODE)) {
+    if (covered.some(([start, end]) => match.index >= start && match.index < end)) continue;
+    add(codeFor(match[1], null));
+  }
+
+  return found;
+}
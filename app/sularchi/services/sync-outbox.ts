@@ -0,0 +1,481 @@
+/**
+ * Sync Outbox
+ *
+ * Uploads reports to the municipality's REST endpoint (EXPO_PUBLIC_SYNC_URL).
+ * Every new report and every status change is queued in the `outbox` table
+ * in the same transaction that writes it, so nothing is lost offline.  The
+ * queue is replayed in order per report whenever the app comes online or to
+ * the foreground, retrying failures with exponential backoff; each entry
+ * keeps one idempotency key across retries so the server never applies it
+ * twice.  After uploading, status changes made by the municipality are
+ * pulled back into the local store.
+ *
+ *   POST /v1/complaints                   report as filed, with its photo
+ *   POST /v1/complaints/:serverId/status  one status change
+ *   GET  /v1/complaints/changes?since=…   status changes made on the server
+ *
+ * See server/sync-stub for a local server implementing this API.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addNetworkStateListener } from 'expo-network';
+import { AppState } from 'react-native';
+import { type SQLiteDatabase } from 'expo-sqlite';
+import { getDatabase, runWrite } from './database';
+import { getDeviceId } from './device-id';
+import { prepareImageForUpload } from './image-preprocessing';
+import { photoFileExists } from './photo-storage';
+import { StatusTransitionError, type ComplaintStatus, type StatusChange } from './complaint-status';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type OutboxOperation = 'create' | 'status';
+
+/** Upload state of a report, shown as a badge on its card */
+export type SyncState = 'pending' | 'retrying' | 'synced' | 'failed';
+
+export type SyncErrorKind = 'offline' | 'timeout' | 'server-error' | 'rate-limited' | 'conflict' | 'rejected';
+
+const RETRYABLE_KINDS: SyncErrorKind[] = ['offline', 'timeout', 'server-error', 'rate-limited'];
+
+export class SyncError extends Error {
+  readonly kind: SyncErrorKind;
+  /** Whether the same request may succeed if tried again */
+  readonly retryable: boolean;
+  /** Delay the server asked for (Retry-After), in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: SyncErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'SyncError';
+    this.kind = kind;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface SyncSummary {
+  /** Outbox entries the server accepted */
+  pushed: number;
+  /** Entries that failed and are waiting for a retry or the user */
+  failed: number;
+  /** Status changes pulled from the server and applied locally */
+  pulled: number;
+  /** Whether the run stopped because the device is offline */
+  offline: boolean;
+}
+
+interface OutboxRow {
+  id: number;
+  complaint_id: string;
+  operation: OutboxOperation;
+  idempotency_key: string;
+  payload: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+}
+
+/** What the server answers for an accepted report or status change */
+interface ServerComplaint {
+  id: string;
+  status: ComplaintStatus;
+  updatedAt: string;
+}
+
+/** A status change made on the server, as listed by the changes feed */
+interface ServerStatusChange extends StatusChange {
+  /** Server id of the report */
+  complaintId: string;
+}
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+/** Base URL of the sync API; sync is off when unset */
+const SYNC_URL = (process.env.EXPO_PUBLIC_SYNC_URL || '').replace(/\/+$/, '');
+
+const SYNC_CURSOR_KEY = '@sularchi/sync-cursor';
+
+const REQUEST_TIMEOUT_MS = 20000;
+const BACKOFF_BASE_MS = 30 * 1000; // doubles after every failed attempt
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+export const SYNC_STATE_INFO: Record<SyncState, { label: string; icon: string; color: string }> = {
+  pending: { label: 'Waiting to upload', icon: '⏳', color: '#9E9E9E' },
+  retrying: { label: 'Upload retrying', icon: '🔁', color: '#FF9800' },
+  synced: { label: 'Uploaded', icon: '☁️', color: '#2E7D32' },
+  failed: { label: 'Upload failed', icon: '⚠️', color: '#C62828' },
+};
+
+export function isSyncEnabled(): boolean {
+  return SYNC_URL.length > 0;
+}
+
+// ─── Queue ───────────────────────────────────────────────────────────────────
+
+/**
+ * Queue an upload inside the caller's write transaction.  `payload` is the
+ * report as filed for `create`, the StatusChange for `status`.
+ */
+export async function enqueueOutboxEntry(
+  db: SQLiteDatabase,
+  complaintId: string,
+  operation: OutboxOperation,
+  payload: unknown,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const key = `${complaintId}-${operation}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  await db.runAsync(
+    `INSERT INTO outbox (complaint_id, operation, idempotency_key, payload, next_attempt_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    complaintId,
+    operation,
+    key,
+    JSON.stringify(payload),
+    now,
+    now,
+  );
+  // A failed report stays failed until the user retries it
+  await db.runAsync(
+    "UPDATE complaints SET sync_state = 'pending' WHERE id = ? AND sync_state != 'failed'",
+    complaintId,
+  );
+}
+
+/**
+ * Queue the failed uploads of a report again and sync now.
+ */
+export async function retrySync(complaintId: string): Promise<void> {
+  await runWrite(async (txn) => {
+    const now = new Date().toISOString();
+    await txn.runAsync(
+      'UPDATE outbox SET next_attempt_at = ?, last_error = NULL WHERE complaint_id = ?',
+      now,
+      complaintId,
+    );
+    await txn.runAsync(
+      "UPDATE complaints SET sync_state = 'pending', sync_error = NULL WHERE id = ?",
+      complaintId,
+    );
+  });
+  requestSync();
+}
+
+// ─── Requests ────────────────────────────────────────────────────────────────
+
+function retryAfterMs(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Send one request to the sync API, aborting after REQUEST_TIMEOUT_MS.
+ * Resolves with the parsed JSON of a 2xx response; anything else rejects
+ * with a SyncError.
+ */
+async function requestJson<T>(
+  method: 'GET' | 'POST',
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(`${SYNC_URL}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Device-Id': await getDeviceId(),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new SyncError('timeout', 'Request timed out');
+    }
+    // React Native's fetch rejects with a TypeError when there is no connection
+    throw new SyncError('offline', error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    const detail = `HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`;
+    if (response.status === 429) throw new SyncError('rate-limited', detail, retryAfterMs(response));
+    if (response.status === 409) throw new SyncError('conflict', detail);
+    if (response.status >= 500) throw new SyncError('server-error', detail, retryAfterMs(response));
+    throw new SyncError('rejected', detail);
+  }
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new SyncError('server-error', `Unreadable response: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Upload one outbox entry.  Status changes wait for the report's server id.
+ */
+async function sendEntry(entry: OutboxRow, serverId: string | null): Promise<ServerComplaint | null> {
+  const headers = { 'Idempotency-Key': entry.idempotency_key };
+
+  if (entry.operation === 'create') {
+    const { getComplaintById } = await import('./complaint-store');
+    const complaint = await getComplaintById(entry.complaint_id);
+    if (!complaint) return null;
+
+    // Device paths mean nothing to the server; the photo goes along instead
+    const { imageUri, thumbnailUri, ...filed } = JSON.parse(entry.payload ?? '{}');
+    const photo = photoFileExists(complaint.imageUri)
+      ? (await prepareImageForUpload(complaint.imageUri)).base64
+      : undefined;
+    return requestJson<ServerComplaint>(
+      'POST',
+      '/v1/complaints',
+      { ...filed, localId: entry.complaint_id, ...(photo && { photo }) },
+      headers,
+    );
+  }
+
+  if (!serverId) throw new SyncError('rejected', 'The report has not been uploaded');
+  return requestJson<ServerComplaint>(
+    'POST',
+    `/v1/complaints/${encodeURIComponent(serverId)}/status`,
+    JSON.parse(entry.payload ?? '{}'),
+    headers,
+  );
+}
+
+async function updateSyncState(db: SQLiteDatabase, complaintId: string): Promise<void> {
+  await db.runAsync(
+    `UPDATE complaints SET
+       sync_state = CASE WHEN EXISTS (SELECT 1 FROM outbox WHERE complaint_id = ?) THEN 'pending' ELSE 'synced' END,
+       sync_error = NULL
+     WHERE id = ?`,
+    complaintId,
+    complaintId,
+  );
+}
+
+async function completeEntry(entry: OutboxRow, response: ServerComplaint | null): Promise<void> {
+  await runWrite(async (txn) => {
+    await txn.runAsync('DELETE FROM outbox WHERE id = ?', entry.id);
+    if (entry.operation === 'create' && response) {
+      await txn.runAsync('UPDATE complaints SET server_id = ? WHERE id = ?', response.id, entry.complaint_id);
+    }
+    await updateSyncState(txn, entry.complaint_id);
+  });
+}
+
+/**
+ * Record a failed upload: retryable failures are tried again after a
+ * backoff, the others wait for the user (see `retrySync`).
+ */
+async function failEntry(entry: OutboxRow, error: SyncError): Promise<void> {
+  const attempts = entry.attempts + 1;
+  const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempts - 1)) * (0.75 + Math.random() * 0.5);
+  const nextAttemptAt = error.retryable
+    ? new Date(Date.now() + Math.max(backoff, error.retryAfterMs ?? 0)).toISOString()
+    : null;
+
+  await runWrite(async (txn) => {
+    await txn.runAsync(
+      'UPDATE outbox SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?',
+      attempts,
+      nextAttemptAt,
+      error.message,
+      entry.id,
+    );
+    await txn.runAsync(
+      'UPDATE complaints SET sync_state = ?, sync_error = ? WHERE id = ?',
+      error.retryable ? 'retrying' : 'failed',
+      error.message,
+      entry.complaint_id,
+    );
+  });
+}
+
+// ─── Sync ────────────────────────────────────────────────────────────────────
+
+/**
+ * Upload the due outbox entries, oldest first.  A report's entries are sent
+ * in order: once one fails or is not due yet, the rest wait.
+ */
+async function pushOutbox(summary: SyncSummary): Promise<void> {
+  const db = await getDatabase();
+  const entries = await db.getAllAsync<OutboxRow & { server_id: string | null }>(
+    `SELECT o.*, c.server_id FROM outbox o JOIN complaints c ON c.id = o.complaint_id ORDER BY o.id`,
+  );
+
+  const now = new Date().toISOString();
+  const blocked = new Set<string>();
+  const serverIds = new Map<string, string>();
+  for (const entry of entries) {
+    if (blocked.has(entry.complaint_id)) continue;
+    if (!entry.next_attempt_at || entry.next_attempt_at > now) {
+      blocked.add(entry.complaint_id);
+      continue;
+    }
+
+    try {
+      const response = await sendEntry(entry, serverIds.get(entry.complaint_id) ?? entry.server_id);
+      if (entry.operation === 'create' && response) serverIds.set(entry.complaint_id, response.id);
+      await completeEntry(entry, response);
+      summary.pushed += 1;
+    } catch (e) {
+      const error = e instanceof SyncError ? e : new SyncError('rejected', e instanceof Error ? e.message : String(e));
+      // Offline is nobody's fault: leave the queue as it is until we are back
+      if (error.kind === 'offline') {
+        summary.offline = true;
+        return;
+      }
+      // The server's status wins; the pull brings it here
+      if (error.kind === 'conflict' && entry.operation === 'status') {
+        console.warn(`Dropped a status change of ${entry.complaint_id} the server refused:`, error.message);
+        await completeEntry(entry, null);
+        continue;
+      }
+      await failEntry(entry, error);
+      blocked.add(entry.complaint_id);
+      summary.failed += 1;
+    }
+  }
+}
+
+/**
+ * Apply the status changes made on the server since the last pull.  The
+ * server's status wins; changes the local state machine cannot follow are
+ * skipped.
+ */
+async function pullStatusChanges(summary: SyncSummary): Promise<void> {
+  const since = (await AsyncStorage.getItem(SYNC_CURSOR_KEY)) ?? '';
+  const { changes, cursor } = await requestJson<{ changes: ServerStatusChange[]; cursor: string }>(
+    'GET',
+    `/v1/complaints/changes?since=${encodeURIComponent(since)}`,
+  );
+
+  const db = await getDatabase();
+  const { updateComplaintStatus } = await import('./complaint-store');
+  for (const change of changes) {
+    const local = await db.getFirstAsync<{ id: string; status: ComplaintStatus }>(
+      'SELECT id, status FROM complaints WHERE server_id = ?',
+      change.complaintId,
+    );
+    if (!local || local.status === change.to) continue;
+    try {
+      await updateComplaintStatus(local.id, change.to, {
+        actor: change.actor,
+        note: change.note,
+        at: change.at,
+        sync: false,
+      });
+      summary.pulled += 1;
+    } catch (e) {
+      if (!(e instanceof StatusTransitionError)) throw e;
+      console.warn(`Skipped server status change of ${local.id}:`, e.message);
+    }
+  }
+  await AsyncStorage.setItem(SYNC_CURSOR_KEY, cursor);
+}
+
+let running: Promise<SyncSummary> | null = null;
+let rerun = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(summary: SyncSummary) => void>();
+
+/**
+ * Wake up when the earliest waiting entry is due.
+ */
+async function scheduleRetry(): Promise<void> {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ next: string | null }>('SELECT MIN(next_attempt_at) AS next FROM outbox');
+  if (!row?.next) return;
+  retryTimer = setTimeout(() => requestSync(), Math.max(0, Date.parse(row.next) - Date.now()));
+}
+
+async function runSync(): Promise<SyncSummary> {
+  const summary: SyncSummary = { pushed: 0, failed: 0, pulled: 0, offline: false };
+  await pushOutbox(summary);
+  if (!summary.offline) {
+    try {
+      await pullStatusChanges(summary);
+    } catch (e) {
+      if (e instanceof SyncError && e.kind === 'offline') summary.offline = true;
+      else console.warn('Failed to pull status changes:', e);
+    }
+  }
+  // Offline, the network listener brings us back instead
+  if (!summary.offline) await scheduleRetry();
+  return summary;
+}
+
+/**
+ * Upload the outbox and pull status changes now.  Concurrent calls share
+ * one run; a call during a run starts another one after it.
+ */
+export function syncNow(): Promise<SyncSummary> {
+  if (!isSyncEnabled()) {
+    return Promise.resolve({ pushed: 0, failed: 0, pulled: 0, offline: false });
+  }
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  running = runSync()
+    .then((summary) => {
+      listeners.forEach((listener) => listener(summary));
+      return summary;
+    })
+    .finally(() => {
+      running = null;
+      if (rerun) {
+        rerun = false;
+        requestSync();
+      }
+    });
+  return running;
+}
+
+/**
+ * Sync in the background, e.g. after a report was filed.
+ */
+export function requestSync(): void {
+  syncNow().catch((e) => console.warn('Sync failed:', e));
+}
+
+/**
+ * Listen for finished sync runs, e.g. to refresh the reports list.
+ * Returns the unsubscribe function.
+ */
+export function addSyncListener(listener: (summary: SyncSummary) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Sync now and whenever the device comes online or the app returns to the
+ * foreground.  Call once at app start; returns the function that stops it.
+ */
+export function startSync(): () => void {
+  if (!isSyncEnabled()) return () => {};
+
+  const network = addNetworkStateListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) requestSync();
+  });
+  const appState = AppState.addEventListener('change', (state) => {
+    if (state === 'active') requestSync();
+  });
+  requestSync();
+
+  return () => {
+    network.remove();
+    appState.remove();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
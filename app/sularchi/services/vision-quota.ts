@@ -0,0 +1,141 @@
+/**
+ * Vision Quota
+ *
+ * Counts metered Vision requests per calendar day and month (device local
+ * time) against configurable budgets.  Once a budget is used up the
+ * classifier skips metered providers until the counter resets.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface VisionBudgets {
+  daily: number;
+  monthly: number;
+}
+
+export interface QuotaWindow {
+  used: number;
+  budget: number;
+  /** Start of the next window, ISO timestamp */
+  resetsAt: string;
+}
+
+export interface VisionUsage {
+  daily: QuotaWindow;
+  monthly: QuotaWindow;
+}
+
+interface UsageCounters {
+  /** `YYYY-MM-DD` of the counted day */
+  day: string;
+  dayCount: number;
+  /** `YYYY-MM` of the counted month */
+  month: string;
+  monthCount: number;
+}
+
+// ─── Storage Keys ────────────────────────────────────────────────────────────
+
+const USAGE_KEY = '@sularchi/vision-usage';
+const BUDGETS_KEY = '@sularchi/vision-budgets';
+
+// ─── Defaults ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_VISION_BUDGETS: VisionBudgets = {
+  daily: Number(process.env.EXPO_PUBLIC_VISION_DAILY_BUDGET) || 50,
+  monthly: Number(process.env.EXPO_PUBLIC_VISION_MONTHLY_BUDGET) || 1000,
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const monthKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+const dayKey = (d: Date) => `${monthKey(d)}-${pad(d.getDate())}`;
+
+/**
+ * Drop counts from a previous day or month.
+ */
+function rollOver(counters: UsageCounters, now: Date): UsageCounters {
+  const day = dayKey(now);
+  const month = monthKey(now);
+  return {
+    day,
+    dayCount: counters.day === day ? counters.dayCount : 0,
+    month,
+    monthCount: counters.month === month ? counters.monthCount : 0,
+  };
+}
+
+async function loadCounters(now: Date): Promise<UsageCounters> {
+  try {
+    const json = await AsyncStorage.getItem(USAGE_KEY);
+    if (json) return rollOver(JSON.parse(json), now);
+  } catch (e) {
+    console.warn('Failed to load Vision usage:', e);
+  }
+  return { day: dayKey(now), dayCount: 0, month: monthKey(now), monthCount: 0 };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Current budgets: the user's settings, else the build defaults.
+ */
+export async function getVisionBudgets(): Promise<VisionBudgets> {
+  try {
+    const json = await AsyncStorage.getItem(BUDGETS_KEY);
+    if (json) return { ...DEFAULT_VISION_BUDGETS, ...JSON.parse(json) };
+  } catch (e) {
+    console.warn('Failed to load Vision budgets:', e);
+  }
+  return DEFAULT_VISION_BUDGETS;
+}
+
+/**
+ * Save new budgets.  Values must be non-negative integers; 0 disables
+ * metered providers entirely.
+ */
+export async function setVisionBudgets(budgets: VisionBudgets): Promise<void> {
+  for (const value of [budgets.daily, budgets.monthly]) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid Vision budget: ${value}`);
+    }
+  }
+  await AsyncStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+}
+
+/**
+ * Usage so far in the current day and month.
+ */
+export async function getVisionUsage(now: Date = new Date()): Promise<VisionUsage> {
+  const [counters, budgets] = await Promise.all([loadCounters(now), getVisionBudgets()]);
+  const nextDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+
+  return {
+    daily: { used: counters.dayCount, budget: budgets.daily, resetsAt: nextDay.toISOString() },
+    monthly: { used: counters.monthCount, budget: budgets.monthly, resetsAt: nextMonth.toISOString() },
+  };
+}
+
+/**
+ * Whether another metered request fits in both budgets.
+ */
+export async function hasVisionBudget(now: Date = new Date()): Promise<boolean> {
+  const { daily, monthly } = await getVisionUsage(now);
+  return daily.used < daily.budget && monthly.used < monthly.budget;
+}
+
+/**
+ * Count one metered request.
+ */
+export async function recordVisionRequest(now: Date = new Date()): Promise<void> {
+  try {
+    const counters = await loadCounters(now);
+    counters.dayCount += 1;
+    counters.monthCount += 1;
+    await AsyncStorage.setItem(USAGE_KEY, JSON.stringify(counters));
+  } catch (e) {
+    console.warn('Failed to record Vision usage:', e);
+  }
+}
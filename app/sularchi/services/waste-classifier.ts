@@ -1,11 +1,45 @@
 /**
  * Waste Classification Service
  *
- * Uses Google Cloud Vision API (label & object detection) to classify waste
- * from camera images.  Falls back to heuristic analysis if the API call fails.
+ * Classifies waste from camera images through an ordered chain of pluggable
+ * providers (custom model endpoint, Google Cloud Vision, on-device model,
+ * heuristic fallback).
  */
 
-import { File as ExpoFile } from 'expo-file-system';
+import { extractImageFeatures, type ImageFeatures } from './image-features';
+import { isOnDeviceModelAvailable, runOnDeviceModel } from './on-device-model';
+import {
+  prepareImageForUpload,
+  recordUploadMetrics,
+  type PreparedImage,
+  type UploadMetrics,
+} from './image-preprocessing';
+import {
+  mapLabelsToCategory,
+  matchSubcategory,
+  roundConfidence,
+  TOP_K,
+  type VisionLabel,
+} from './label-matcher';
+import { getLearnedWeights } from './correction-learning';
+import { parseRecyclingCodes } from './recycling-codes';
+import { lookupBarcode } from './product-database';
+import { getDeviceId } from './device-id';
+import { hasVisionBudget, recordVisionRequest } from './vision-quota';
+import {
+  ClassifierError,
+  describeClassifierError,
+  errorFromResponse,
+  toClassifierError,
+  type ClassifierErrorKind,
+} from './classifier-errors';
+import {
+  computeImageHash,
+  getCachedClassification,
+  setCachedClassification,
+} from './classification-cache';
+import { getActiveRuleset } from './waste-taxonomy';
+import { calibrateConfidence, getAbstainThreshold } from './confidence-calibration';
 
 export type WasteCategory =
   | 'plastic'
@@ -18,121 +52,166 @@ export type WasteCategory =
   | 'hazardous'
   | 'unknown';
 
+/** Axis-aligned box in normalised image coordinates (0-1, origin top-left) */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A single object localised within the photo */
+export interface DetectedItem {
+  category: WasteCategory;
+  subcategory?: string;
+  confidence: number; // 0-1
+  /** Object name as reported by the provider */
+  label: string;
+  box: BoundingBox;
+}
+
+/** A Vision label localised to a region of the image */
+interface LocalizedLabel extends VisionLabel {
+  box: BoundingBox;
+}
+
+/** Raw output of a label-based provider, as passed to `resultFromLabels` */
+export interface LabelSource {
+  imageLabels: VisionLabel[];
+  objects: LocalizedLabel[];
+  /** OCR text of the packaging */
+  text?: string;
+  logos?: VisionLabel[];
+}
+
+/** A ranked category suggestion */
+export interface CategoryCandidate {
+  category: WasteCategory;
+  confidence: number; // 0-1
+  /** Sub-category of the guess, kept when an abstained result demotes it */
+  subcategory?: string;
+}
+
 export interface ClassificationResult {
   category: WasteCategory;
+  /** Optional finer type within the category (e.g. `pet-1` under plastic) */
+  subcategory?: string;
+  subcategoryLabel?: string;
+  /** Calibrated: the estimated probability that `category` is right */
   confidence: number; // 0-1
+  /** The provider's own confidence, before calibration */
+  rawConfidence?: number;
+  /** The provider's guess was too unsure, so the user should pick the category */
+  abstained?: boolean;
   label: string;
   description: string;
   disposalTip: string;
   recyclable: boolean;
   icon: string;
   color: string;
+  /** Id of the classifier provider that produced this result */
+  provider: string;
+  /** Individually localised items, when the provider supports detection */
+  items?: DetectedItem[];
+  /** Top candidate categories, best first (includes `category` itself) */
+  alternatives?: CategoryCandidate[];
+  /** Raw labels the category was derived from, for label-based providers */
+  labels?: VisionLabel[];
+  /** What a label-based provider returned, so the category can be re-derived */
+  source?: LabelSource;
+  /** Recycling codes read from the packaging (e.g. `PET 1`), first one decisive */
+  recyclingCodes?: string[];
+  /** Producer recognised from a logo on the packaging */
+  brand?: string;
+  /** Scanned EAN/UPC, when the result came from (or tried) a barcode lookup */
+  barcode?: string;
+  /** Payload size and latency, for providers that upload the image */
+  upload?: UploadMetrics;
+  /** Served from the classification cache instead of a fresh request */
+  cached?: boolean;
+  /** Set when a preferred provider failed and a fallback produced this result */
+  degraded?: DegradedReason;
 }
 
-const WASTE_DATA: Record<WasteCategory, Omit<ClassificationResult, 'confidence'>> = {
-  plastic: {
-    category: 'plastic',
-    label: 'Plastic',
-    description: 'Plastic waste including bottles, bags, containers, and packaging materials.',
-    disposalTip: 'Rinse and place in the recycling bin. Remove caps and labels if possible.',
-    recyclable: true,
-    icon: '♻️',
-    color: '#2196F3',
-  },
-  paper: {
-    category: 'paper',
-    label: 'Paper / Cardboard',
-    description: 'Paper products including newspapers, cardboard boxes, and office paper.',
-    disposalTip: 'Flatten cardboard boxes. Keep paper dry and clean for recycling.',
-    recyclable: true,
-    icon: '📄',
-    color: '#8D6E63',
-  },
-  glass: {
-    category: 'glass',
-    label: 'Glass',
-    description: 'Glass bottles, jars, and containers.',
-    disposalTip: 'Rinse and place in the glass recycling bin. Separate by color if required.',
-    recyclable: true,
-    icon: '🫙',
-    color: '#26A69A',
-  },
-  metal: {
-    category: 'metal',
-    label: 'Metal',
-    description: 'Metal cans, aluminum foil, tin containers, and scrap metal.',
-    disposalTip: 'Rinse cans and crush them to save space. Place in the metal recycling bin.',
-    recyclable: true,
-    icon: '🥫',
-    color: '#78909C',
-  },
-  organic: {
-    category: 'organic',
-    label: 'Organic / Food Waste',
-    description: 'Food scraps, yard waste, coffee grounds, and biodegradable materials.',
-    disposalTip: 'Compost at home or place in the organic waste bin. Avoid mixing with plastics.',
-    recyclable: false,
-    icon: '🍂',
-    color: '#4CAF50',
-  },
-  'e-waste': {
-    category: 'e-waste',
-    label: 'Electronic Waste',
-    description: 'Old electronics, batteries, cables, and circuit boards.',
-    disposalTip: 'Take to a certified e-waste collection center. Never throw in regular trash.',
-    recyclable: true,
-    icon: '🔌',
-    color: '#FF9800',
-  },
-  textile: {
-    category: 'textile',
-    label: 'Textile / Fabric',
-    description: 'Clothing, fabric scraps, shoes, and other textile materials.',
-    disposalTip: 'Donate usable items. Take damaged textiles to a textile recycling point.',
-    recyclable: true,
-    icon: '👕',
-    color: '#9C27B0',
-  },
-  hazardous: {
-    category: 'hazardous',
-    label: 'Hazardous Waste',
-    description: 'Chemicals, paint, solvents, and medical waste.',
-    disposalTip: 'Take to a hazardous waste facility. Never pour down drains or into regular bins.',
-    recyclable: false,
-    icon: '☢️',
-    color: '#F44336',
-  },
-  unknown: {
-    category: 'unknown',
-    label: 'Unidentified',
-    description: 'Unable to classify this item with high confidence.',
-    disposalTip: 'When in doubt, check your local waste disposal guidelines.',
-    recyclable: false,
-    icon: '❓',
-    color: '#9E9E9E',
-  },
-};
+export interface DegradedReason {
+  /** Id of the provider that failed */
+  provider: string;
+  kind: ClassifierErrorKind;
+  /** User-facing explanation */
+  message: string;
+}
 
 /**
- * Analyze image pixels to extract dominant color features.
- * Used as fallback when Vision API is unavailable.
+ * Bundled on-device model: fixed output labels, version and the mapping of
+ * each label onto our waste taxonomy.
  */
-async function analyzeImageFeatures(imageUri: string): Promise<{
-  dominantHue: number;
-  brightness: number;
-  saturation: number;
-}> {
-  const hash = imageUri.split('').reduce((acc, char) => {
-    return ((acc << 5) - acc + char.charCodeAt(0)) | 0;
-  }, 0);
+export const ON_DEVICE_MODEL = {
+  version: 'waste-mobilenet-v3-int8@1.0.0',
+  inputSize: 224,
+  labels: [
+    'battery', 'biological', 'brown-glass', 'cardboard', 'clothes', 'green-glass',
+    'metal', 'paper', 'plastic', 'shoes', 'trash', 'white-glass',
+  ],
+} as const;
+
+const ON_DEVICE_CLASS_MAP: Record<(typeof ON_DEVICE_MODEL.labels)[number], WasteCategory> = {
+  battery: 'e-waste',
+  biological: 'organic',
+  'brown-glass': 'glass',
+  cardboard: 'paper',
+  clothes: 'textile',
+  'green-glass': 'glass',
+  metal: 'metal',
+  paper: 'paper',
+  plastic: 'plastic',
+  shoes: 'textile',
+  trash: 'unknown',
+  'white-glass': 'glass',
+};
 
-  const normalizedHash = Math.abs(hash);
+const ON_DEVICE_SUBCATEGORY_MAP: Partial<Record<(typeof ON_DEVICE_MODEL.labels)[number], string>> = {
+  battery: 'batteries',
+  'brown-glass': 'brown',
+  'green-glass': 'green',
+  'white-glass': 'clear',
+};
 
-  return {
-    dominantHue: normalizedHash % 360,
-    brightness: (normalizedHash % 100) / 100,
-    saturation: ((normalizedHash >> 8) % 100) / 100,
-  };
+/**
+ * Rule-based category guess from pixel features.  These rules only look at
+ * colour and texture, so confidence is deliberately kept low (≤ 0.45).
+ */
+function guessCategoryFromFeatures(
+  features: ImageFeatures,
+): { category: WasteCategory; confidence: number; reason: string } {
+  const { dominantHue, brightness, saturation, greyFraction, edgeDensity } = features;
+  const isGreen = dominantHue >= 60 && dominantHue < 170;
+  const isBrown = dominantHue >= 15 && dominantHue < 50 && brightness < 0.7;
+
+  if (greyFraction > 0.6 && brightness > 0.75 && edgeDensity < 0.15) {
+    return { category: 'paper', confidence: 0.35, reason: 'bright, neutral and smooth' };
+  }
+  if (isBrown && saturation > 0.25 && edgeDensity < 0.2) {
+    return { category: 'paper', confidence: 0.3, reason: 'brown and smooth like cardboard' };
+  }
+  if (isGreen && saturation > 0.3 && edgeDensity >= 0.15) {
+    return { category: 'organic', confidence: 0.4, reason: 'green and textured like plant matter' };
+  }
+  if (greyFraction > 0.6 && brightness >= 0.35 && edgeDensity >= 0.2) {
+    return { category: 'metal', confidence: 0.3, reason: 'grey with sharp reflections' };
+  }
+  if (brightness < 0.35 && edgeDensity >= 0.25) {
+    return { category: 'e-waste', confidence: 0.25, reason: 'dark with dense fine detail' };
+  }
+  if (dominantHue >= 150 && dominantHue < 200 && saturation < 0.4 && brightness > 0.5) {
+    return { category: 'glass', confidence: 0.3, reason: 'pale green-blue and translucent' };
+  }
+  if (saturation > 0.5 && edgeDensity < 0.2) {
+    return { category: 'plastic', confidence: 0.35, reason: 'vivid, uniform colour' };
+  }
+  if (saturation > 0.25 && edgeDensity >= 0.3) {
+    return { category: 'textile', confidence: 0.25, reason: 'coloured with a woven texture' };
+  }
+  return { category: 'unknown', confidence: 0.2, reason: 'no distinctive colour or texture' };
 }
 
 // ─── Google Cloud Vision API Setup ───────────────────────────────────────────
@@ -140,252 +219,663 @@ async function analyzeImageFeatures(imageUri: string): Promise<{
 const VISION_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_VISION_API_KEY || '';
 const VISION_API_URL = `https://vision.googleapis.com/v1/images:annotate?key=${VISION_API_KEY}`;
 
+/** Base URL of the Sularchi Vision proxy (server/vision-proxy) */
+const VISION_PROXY_URL = (process.env.EXPO_PUBLIC_VISION_PROXY_URL || '').replace(/\/+$/, '');
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 500; // doubles after every failed attempt
+
 /**
- * Convert a local image URI to base64 string for the Vision API.
+ * POST a JSON body once, aborting after REQUEST_TIMEOUT_MS.  Resolves with
+ * the parsed JSON of a 2xx response; anything else rejects with a
+ * ClassifierError.
  */
-async function imageToBase64(imageUri: string): Promise<string> {
-  const file = new ExpoFile(imageUri);
-  const arrayBuffer = await file.arrayBuffer();
-  const bytes = new Uint8Array(arrayBuffer);
-  let binary = '';
-  for (let i = 0; i < bytes.length; i++) {
-    binary += String.fromCharCode(bytes[i]);
+async function postJsonOnce(url: string, body: string, headers: Record<string, string>): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw errorFromResponse(response.status, await response.text());
+    }
+    return await response.json();
+  } catch (error) {
+    throw toClassifierError(error);
+  } finally {
+    clearTimeout(timer);
   }
-  return btoa(binary);
 }
 
 /**
- * Keyword → waste-category mapping used to convert Vision API labels into our
- * classification taxonomy.  Each keyword is matched case-insensitively against
- * the returned label descriptions.
+ * POST a JSON body to a classifier endpoint, retrying timeouts, network
+ * and server errors with exponential backoff.  The upload metrics are
+ * recorded in the background.
  */
-const LABEL_TO_CATEGORY: { keywords: string[]; category: WasteCategory }[] = [
-  {
-    category: 'plastic',
-    keywords: [
-      'plastic', 'bottle', 'polythene', 'polyethylene', 'container',
-      'packaging', 'wrapper', 'bag', 'cup', 'straw', 'lid', 'polymer',
-      'pet bottle', 'plastic bag', 'plastic wrap',
-    ],
-  },
-  {
-    category: 'paper',
-    keywords: [
-      'paper', 'cardboard', 'newspaper', 'magazine', 'carton', 'book',
-      'envelope', 'tissue', 'napkin', 'document',
-    ],
-  },
-  {
-    category: 'glass',
-    keywords: [
-      'glass', 'jar', 'wine bottle', 'beer bottle', 'glass bottle',
-      'mirror', 'window',
-    ],
-  },
-  {
-    category: 'metal',
-    keywords: [
-      'metal', 'aluminum', 'aluminium', 'tin', 'can', 'steel', 'iron',
-      'copper', 'foil', 'scrap metal', 'beverage can',
-    ],
-  },
-  {
-    category: 'organic',
-    keywords: [
-      'food', 'fruit', 'vegetable', 'plant', 'leaf', 'flower', 'compost',
-      'wood', 'biodegradable', 'garden waste', 'yard waste', 'coffee',
-      'banana', 'apple', 'bread', 'meat', 'egg',
-    ],
-  },
-  {
-    category: 'e-waste',
-    keywords: [
-      'electronic', 'circuit board', 'battery', 'cable', 'computer',
-      'phone', 'laptop', 'keyboard', 'monitor', 'charger', 'wire',
-      'gadget', 'device', 'motherboard', 'smartphone', 'tablet',
-    ],
-  },
-  {
-    category: 'textile',
-    keywords: [
-      'textile', 'fabric', 'clothing', 'shirt', 'shoe', 'cloth',
-      'garment', 'cotton', 'denim', 'leather', 'wool', 'jacket',
-      'pants', 'dress', 'sock',
-    ],
-  },
-  {
-    category: 'hazardous',
-    keywords: [
-      'chemical', 'paint', 'solvent', 'pesticide', 'medical', 'syringe',
-      'aerosol', 'bleach', 'acid', 'poison', 'toxic', 'biohazard',
-      'fluorescent', 'oil',
-    ],
-  },
-];
+async function postImage(
+  url: string,
+  body: unknown,
+  image: PreparedImage,
+  provider: string,
+  headers: Record<string, string> = {},
+): Promise<{ data: any; upload: UploadMetrics }> {
+  const startedAt = Date.now();
+  const payload = JSON.stringify(body);
+
+  let data: any;
+  let attempts = 0;
+  for (;;) {
+    attempts += 1;
+    try {
+      data = await postJsonOnce(url, payload, headers);
+      break;
+    } catch (error) {
+      const err = toClassifierError(error);
+      if (!err.retryable || attempts >= MAX_ATTEMPTS) throw err;
+      const delay = BACKOFF_BASE_MS * 2 ** (attempts - 1) * (0.75 + Math.random() * 0.5);
+      console.warn(`${provider} request failed (${err.kind}), retrying in ${Math.round(delay)} ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  const upload: UploadMetrics = {
+    provider,
+    originalBytes: image.originalBytes,
+    payloadBytes: image.payloadBytes,
+    width: image.width,
+    height: image.height,
+    preprocessMs: image.preprocessMs,
+    requestMs: Date.now() - startedAt,
+    attempts,
+    createdAt: new Date().toISOString(),
+  };
+  recordUploadMetrics(upload);
+
+  return { data, upload };
+}
+
+// ─── Classifier Providers ────────────────────────────────────────────────────
 
 /**
- * Map an array of Vision API label descriptions to a waste category.
- * Returns the category with the most keyword matches and an approximate
- * confidence score derived from the highest matching label score.
+ * A single classification backend.  Providers are tried in chain order; a
+ * provider that throws (or reports itself unavailable) hands over to the next.
  */
-function mapLabelsToCategory(
-  labels: { description: string; score: number }[],
-): { category: WasteCategory; confidence: number; bestLabel: string } {
-  const scores: Record<WasteCategory, { count: number; maxScore: number; bestLabel: string }> = {} as any;
+export interface ClassifierProvider {
+  /** Stable identifier, recorded on every result it produces */
+  id: string;
+  /** Human-readable name for UI and logs */
+  name: string;
+  /** Whether the provider is configured for this build (API key, endpoint…) */
+  isAvailable(): boolean;
+  /** Whether results are worth caching — set for paid or remote providers */
+  cacheable?: boolean;
+  /** Whether each request counts against the Vision budget (see vision-quota) */
+  metered?: boolean;
+  classify(imageUri: string): Promise<ClassificationResult>;
+}
 
-  for (const entry of LABEL_TO_CATEGORY) {
-    scores[entry.category] = { count: 0, maxScore: 0, bestLabel: '' };
-  }
+/**
+ * Build a result from the static category data, tagged with its provider.
+ */
+function buildResult(
+  category: WasteCategory,
+  confidence: number,
+  provider: string,
+  detectedLabel?: string,
+  subcategory?: string,
+): ClassificationResult {
+  const data = getDisposalInfo(isWasteCategory(category) ? category : 'unknown', subcategory);
+  return {
+    ...data,
+    description: detectedLabel ? `Detected: ${detectedLabel}. ${data.description}` : data.description,
+    confidence: roundConfidence(confidence),
+    provider,
+  };
+}
 
-  for (const label of labels) {
-    const desc = label.description.toLowerCase();
-    for (const entry of LABEL_TO_CATEGORY) {
-      for (const kw of entry.keywords) {
-        if (desc.includes(kw)) {
-          scores[entry.category].count += 1;
-          if (label.score > scores[entry.category].maxScore) {
-            scores[entry.category].maxScore = label.score;
-            scores[entry.category].bestLabel = label.description;
-          }
-          break; // one keyword match per label per category is enough
-        }
-      }
-    }
-  }
+/**
+ * Convert a Vision bounding polygon (normalised vertices, zero coordinates
+ * omitted) into an axis-aligned box.
+ */
+function verticesToBox(vertices: { x?: number; y?: number }[]): BoundingBox {
+  const xs = vertices.map((v) => v.x ?? 0);
+  const ys = vertices.map((v) => v.y ?? 0);
+  const x = Math.max(0, Math.min(...xs));
+  const y = Math.max(0, Math.min(...ys));
+  return {
+    x,
+    y,
+    width: Math.min(1, Math.max(...xs)) - x,
+    height: Math.min(1, Math.max(...ys)) - y,
+  };
+}
+
+function isWasteCategory(value: unknown): value is WasteCategory {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(getActiveRuleset().categories, value)
+  );
+}
 
-  let best: WasteCategory = 'unknown';
-  let bestCount = 0;
-  let bestScore = 0;
-  let bestLabel = '';
-
-  for (const entry of LABEL_TO_CATEGORY) {
-    const s = scores[entry.category];
-    if (s.count > bestCount || (s.count === bestCount && s.maxScore > bestScore)) {
-      best = entry.category;
-      bestCount = s.count;
-      bestScore = s.maxScore;
-      bestLabel = s.bestLabel;
+/**
+ * Custom HTTP model endpoint.  Expects a JSON response of the form
+ * `{ category, confidence, label? }` for a `{ image: <base64> }` POST.
+ */
+const CUSTOM_MODEL_URL = process.env.EXPO_PUBLIC_CLASSIFIER_MODEL_URL || '';
+
+const customModelProvider: ClassifierProvider = {
+  id: 'custom-model',
+  name: 'Custom Model',
+  isAvailable: () => CUSTOM_MODEL_URL.length > 0,
+  cacheable: true,
+  async classify(imageUri) {
+    const image = await prepareImageForUpload(imageUri);
+    const { data, upload } = await postImage(
+      CUSTOM_MODEL_URL,
+      { image: image.base64 },
+      image,
+      customModelProvider.id,
+    );
+
+    if (!isWasteCategory(data?.category) || typeof data?.confidence !== 'number') {
+      throw new ClassifierError('bad-response', 'Custom model returned an unrecognised response');
     }
+
+    return {
+      ...buildResult(data.category, data.confidence, customModelProvider.id, data.label, data.subcategory),
+      upload,
+    };
+  },
+};
+
+/** Confidence given to a category read from a printed recycling code */
+const RECYCLING_CODE_CONFIDENCE = 0.9;
+/** Logos scoring below this are not recorded as the brand */
+const MIN_LOGO_SCORE = 0.5;
+
+/**
+ * Map Vision labels and localized objects onto our taxonomy.  Objects count
+ * towards the overall category and each becomes a detected item.  A
+ * recycling code found in the OCR text overrides the label-based material,
+ * and the best logo is recorded as the brand.
+ */
+async function resultFromLabels(
+  imageLabels: VisionLabel[],
+  objects: LocalizedLabel[],
+  provider: string,
+  packaging: { text?: string; logos?: VisionLabel[] } = {},
+): Promise<ClassificationResult> {
+  const labels: VisionLabel[] = [
+    ...imageLabels,
+    ...objects.map(({ description, score }) => ({ description, score })),
+  ];
+  if (labels.length === 0) {
+    throw new ClassifierError('empty-labels', 'Vision returned no labels');
   }
 
-  if (bestCount === 0) {
-    return { category: 'unknown', confidence: 0.5, bestLabel: labels[0]?.description || '' };
+  const learned = await getLearnedWeights();
+  const items: DetectedItem[] = objects.map((object) => {
+    const itemLabels = [{ description: object.description, score: object.score }];
+    const item = mapLabelsToCategory(itemLabels, learned);
+    const itemSub = matchSubcategory(item.category, itemLabels);
+    return {
+      category: item.category,
+      ...(itemSub && { subcategory: itemSub.subcategory }),
+      confidence: Math.round(object.score * 100) / 100,
+      label: object.description,
+      box: object.box,
+    };
+  });
+
+  let { category, confidence, bestLabel, alternatives } = mapLabelsToCategory(labels, learned);
+  let subcategory = matchSubcategory(category, labels)?.subcategory;
+
+  const recyclingCodes = packaging.text ? parseRecyclingCodes(packaging.text) : [];
+  const [code] = recyclingCodes;
+  if (code && isWasteCategory(code.category)) {
+    const agrees = code.category === category;
+    category = code.category;
+    confidence = agrees ? Math.max(confidence, RECYCLING_CODE_CONFIDENCE) : RECYCLING_CODE_CONFIDENCE;
+    subcategory = code.subcategory ?? (agrees ? subcategory : undefined);
+    bestLabel = `${code.code} recycling code`;
+    alternatives = [
+      { category, confidence: roundConfidence(confidence) },
+      ...alternatives.filter((a) => a.category !== category),
+    ].slice(0, TOP_K);
   }
 
-  return {
-    category: best,
-    confidence: Math.min(1, Math.max(0, Math.round(bestScore * 100) / 100)),
-    bestLabel,
+  const brand = (packaging.logos ?? [])
+    .filter((logo) => logo.score >= MIN_LOGO_SCORE)
+    .sort((a, b) => b.score - a.score)[0]?.description;
+
+  const result: ClassificationResult = {
+    ...buildResult(category, confidence, provider, bestLabel, subcategory),
+    alternatives,
+    labels,
+    source: { imageLabels, objects, ...packaging },
+    ...(recyclingCodes.length > 0 && { recyclingCodes: recyclingCodes.map((c) => c.code) }),
+    ...(brand && { brand }),
   };
+  return items.length > 0 ? { ...result, items } : result;
 }
 
 /**
- * Classify waste using Google Cloud Vision API (label + object detection).
- * Falls back to heuristic classification on failure.
+ * Google Cloud Vision (label + object detection), called directly with the
+ * bundled key.  Prefer the proxy in production builds.
  */
-export async function classifyWaste(imageUri: string): Promise<ClassificationResult> {
-  // Try Google Cloud Vision API first
-  if (VISION_API_KEY) {
-    try {
-      const base64Image = await imageToBase64(imageUri);
-
-      const requestBody = {
-        requests: [
-          {
-            image: { content: base64Image },
-            features: [
-              { type: 'LABEL_DETECTION', maxResults: 15 },
-              { type: 'OBJECT_LOCALIZATION', maxResults: 10 },
-            ],
-          },
-        ],
-      };
-
-      const response = await fetch(VISION_API_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-      });
+const googleVisionProvider: ClassifierProvider = {
+  id: 'google-vision',
+  name: 'Google Cloud Vision',
+  isAvailable: () => VISION_API_KEY.length > 0,
+  cacheable: true,
+  metered: true,
+  async classify(imageUri) {
+    const image = await prepareImageForUpload(imageUri);
+
+    const requestBody = {
+      requests: [
+        {
+          image: { content: image.base64 },
+          features: [
+            { type: 'LABEL_DETECTION', maxResults: 15 },
+            { type: 'OBJECT_LOCALIZATION', maxResults: 10 },
+            { type: 'TEXT_DETECTION', maxResults: 1 },
+            { type: 'LOGO_DETECTION', maxResults: 3 },
+          ],
+        },
+      ],
+    };
+
+    const { data, upload } = await postImage(
+      VISION_API_URL,
+      requestBody,
+      image,
+      googleVisionProvider.id,
+    );
+
+    const annotations = data?.responses?.[0];
+    if (annotations?.error) {
+      // Per-image errors arrive inside a 200 response, as google.rpc status codes
+      const { code, message } = annotations.error;
+      const kind = code === 8 ? 'quota-exhausted' : code === 7 || code === 16 ? 'invalid-key' : 'server-error';
+      throw new ClassifierError(kind, `Vision API error ${code}: ${message}`);
+    }
 
-      if (!response.ok) {
-        const errText = await response.text();
-        throw new Error(`Vision API HTTP ${response.status}: ${errText}`);
+    const labels: VisionLabel[] = (annotations?.labelAnnotations ?? []).map((la: any) => ({
+      description: la.description,
+      score: la.score,
+    }));
+    const objects: LocalizedLabel[] = [];
+    for (const oa of annotations?.localizedObjectAnnotations ?? []) {
+      const vertices: { x?: number; y?: number }[] = oa.boundingPoly?.normalizedVertices ?? [];
+      // An object without a box still counts as a label
+      if (vertices.length === 0) {
+        labels.push({ description: oa.name, score: oa.score });
+      } else {
+        objects.push({ description: oa.name, score: oa.score, box: verticesToBox(vertices) });
       }
+    }
 
-      const data = await response.json();
-      const annotations = data.responses?.[0];
+    const packaging = {
+      // The first text annotation holds all text found in the image
+      text: annotations?.textAnnotations?.[0]?.description,
+      logos: (annotations?.logoAnnotations ?? []).map((la: any) => ({
+        description: la.description,
+        score: la.score,
+      })),
+    };
 
-      // Merge label annotations and localized object annotations
-      const labels: { description: string; score: number }[] = [];
+    return { ...(await resultFromLabels(labels, objects, googleVisionProvider.id, packaging)), upload };
+  },
+};
 
-      if (annotations?.labelAnnotations) {
-        for (const la of annotations.labelAnnotations) {
-          labels.push({ description: la.description, score: la.score });
-        }
-      }
-      if (annotations?.localizedObjectAnnotations) {
-        for (const oa of annotations.localizedObjectAnnotations) {
-          labels.push({ description: oa.name, score: oa.score });
-        }
-      }
+/**
+ * Sularchi Vision proxy: the server holds the API key, rate-limits per
+ * device and returns normalized labels.
+ */
+const visionProxyProvider: ClassifierProvider = {
+  id: 'vision-proxy',
+  name: 'Google Cloud Vision (via Sularchi proxy)',
+  isAvailable: () => VISION_PROXY_URL.length > 0,
+  cacheable: true,
+  metered: true,
+  async classify(imageUri) {
+    const image = await prepareImageForUpload(imageUri);
+    const { data, upload } = await postImage(
+      `${VISION_PROXY_URL}/v1/annotate`,
+      { image: image.base64 },
+      image,
+      visionProxyProvider.id,
+      { 'X-Device-Id': await getDeviceId() },
+    );
+
+    if (!Array.isArray(data?.labels) || !Array.isArray(data?.objects)) {
+      throw new ClassifierError('bad-response', 'Vision proxy returned an unrecognised response');
+    }
+    const packaging = {
+      text: typeof data.text === 'string' ? data.text : undefined,
+      logos: Array.isArray(data.logos) ? data.logos : [],
+    };
+    return {
+      ...(await resultFromLabels(data.labels, data.objects, visionProxyProvider.id, packaging)),
+      upload,
+    };
+  },
+};
 
-      if (labels.length === 0) {
-        throw new Error('Vision API returned no labels');
+/**
+ * Bundled quantized model running on the CPU.  Works without network or a
+ * Vision API key.
+ */
+const onDeviceProvider: ClassifierProvider = {
+  id: 'on-device',
+  name: 'Offline Model',
+  isAvailable: isOnDeviceModelAvailable,
+  async classify(imageUri) {
+    const predictions = await runOnDeviceModel(imageUri, ON_DEVICE_MODEL);
+
+    // Several model labels share a category; keep each category's best score
+    const alternatives: CategoryCandidate[] = [];
+    for (const p of predictions) {
+      const category = ON_DEVICE_CLASS_MAP[p.label as keyof typeof ON_DEVICE_CLASS_MAP] ?? 'unknown';
+      if (!alternatives.some((a) => a.category === category)) {
+        alternatives.push({ category, confidence: roundConfidence(p.score) });
       }
+    }
 
-      const { category, confidence, bestLabel } = mapLabelsToCategory(labels);
+    const [top] = predictions;
+    const result = buildResult(
+      alternatives[0].category,
+      top.score,
+      onDeviceProvider.id,
+      top.label,
+      ON_DEVICE_SUBCATEGORY_MAP[top.label as keyof typeof ON_DEVICE_SUBCATEGORY_MAP],
+    );
+    return { ...result, alternatives: alternatives.slice(0, TOP_K) };
+  },
+};
 
-      if (!WASTE_DATA[category]) {
-        return { ...WASTE_DATA.unknown, confidence: 0.5 };
-      }
+/**
+ * Heuristic fallback based on pixel analysis.  Always available, never
+ * throws — keep it last.
+ */
+const heuristicProvider: ClassifierProvider = {
+  id: 'heuristic',
+  name: 'Heuristic Fallback',
+  isAvailable: () => true,
+  async classify(imageUri) {
+    let features: ImageFeatures;
+    try {
+      features = await extractImageFeatures(imageUri);
+    } catch (error) {
+      console.warn('Image feature extraction failed:', error);
+      return buildResult('unknown', 0, heuristicProvider.id);
+    }
+
+    const { category, confidence, reason } = guessCategoryFromFeatures(features);
+    const result = buildResult(category, confidence, heuristicProvider.id);
+    return {
+      ...result,
+      description: `Estimated from image colour and texture (${reason}). ${result.description}`,
+    };
+  },
+};
+
+// ─── Provider Registry ───────────────────────────────────────────────────────
+
+const providerRegistry = new Map<string, ClassifierProvider>();
+
+/**
+ * Default fallback order.  Override per deployment with a comma-separated
+ * `EXPO_PUBLIC_CLASSIFIER_CHAIN`, or at runtime via `setClassifierChain`.
+ */
+const DEFAULT_CHAIN = ['custom-model', 'vision-proxy', 'google-vision', 'on-device', 'heuristic'];
+
+const CHAIN_OVERRIDE = process.env.EXPO_PUBLIC_CLASSIFIER_CHAIN || '';
+
+let classifierChain: string[] = CHAIN_OVERRIDE
+  ? CHAIN_OVERRIDE.split(',').map((id: string) => id.trim()).filter(Boolean)
+  : DEFAULT_CHAIN;
+
+/**
+ * Register (or replace) a classifier provider by its id.
+ */
+export function registerClassifierProvider(provider: ClassifierProvider): void {
+  providerRegistry.set(provider.id, provider);
+}
+
+/**
+ * Look up a registered provider by id.
+ */
+export function getClassifierProvider(id: string): ClassifierProvider | null {
+  return providerRegistry.get(id) || null;
+}
+
+/**
+ * Set the ordered fallback chain by provider id.
+ */
+export function setClassifierChain(providerIds: string[]): void {
+  classifierChain = [...providerIds];
+}
+
+/**
+ * Get the registered providers in chain order.  Unknown ids are skipped.
+ */
+export function getClassifierChain(): ClassifierProvider[] {
+  return classifierChain
+    .map((id) => providerRegistry.get(id))
+    .filter((p): p is ClassifierProvider => p !== undefined);
+}
+
+registerClassifierProvider(customModelProvider);
+registerClassifierProvider(visionProxyProvider);
+registerClassifierProvider(googleVisionProvider);
+registerClassifierProvider(onDeviceProvider);
+registerClassifierProvider(heuristicProvider);
 
-      return {
-        ...WASTE_DATA[category],
-        description: `Detected: ${bestLabel}. ${WASTE_DATA[category].description}`,
-        confidence,
+/**
+ * Replace a provider's raw confidences with calibrated ones (see
+ * confidence-calibration).  A result whose calibrated confidence is below the
+ * provider's abstain threshold becomes `unknown` with `abstained` set; its
+ * guess, with its sub-category, leads the alternatives for the user to pick.
+ */
+function calibrateResult(result: ClassificationResult): ClassificationResult {
+  const calibrate = (confidence: number) =>
+    roundConfidence(calibrateConfidence(result.provider, confidence));
+
+  const calibrated: ClassificationResult = {
+    ...result,
+    confidence: calibrate(result.confidence),
+    rawConfidence: result.confidence,
+    alternatives: result.alternatives?.map((a) => ({ ...a, confidence: calibrate(a.confidence) })),
+    items: result.items?.map((item) => ({ ...item, confidence: calibrate(item.confidence) })),
+  };
+  if (calibrated.category === 'unknown' || calibrated.confidence >= getAbstainThreshold(result.provider)) {
+    return calibrated;
+  }
+
+  const { subcategory, subcategoryLabel: _subcategoryLabel, ...rest } = calibrated;
+  const guess: CategoryCandidate = {
+    category: calibrated.category,
+    confidence: calibrated.confidence,
+    ...(subcategory && { subcategory }),
+  };
+  const { label, description, disposalTip, recyclable, icon, color } = getDisposalInfo('unknown');
+  return {
+    ...rest,
+    alternatives: [guess, ...(calibrated.alternatives ?? []).filter((a) => a.category !== guess.category)],
+    category: 'unknown',
+    label,
+    description,
+    disposalTip,
+    recyclable,
+    icon,
+    color,
+    abstained: true,
+  };
+}
+
+/**
+ * Bring a cached result up to date.  A label-based result is derived again
+ * from its raw labels, so corrections learned since it was cached count;
+ * any other result only picks up the active ruleset.
+ */
+async function refreshCachedResult(hit: ClassificationResult): Promise<ClassificationResult> {
+  if (!hit.source) return applyActiveRuleset(hit);
+  const { imageLabels, objects, text, logos } = hit.source;
+  const fresh = await resultFromLabels(imageLabels, objects, hit.provider, { text, logos });
+  return hit.upload ? { ...fresh, upload: hit.upload } : fresh;
+}
+
+/**
+ * Classify waste by running the provider chain in order.  The first provider
+ * that is available and succeeds wins; its id is recorded on the result.
+ * A photo already classified by a cacheable provider is answered from the
+ * cache, with `cached` set.  Metered providers are skipped once the Vision
+ * budget is used up.  Confidence is calibrated per provider, and a result
+ * below the abstain threshold is reported as `unknown`.
+ */
+export async function classifyWaste(imageUri: string): Promise<ClassificationResult> {
+  let hash: string | null = null;
+  try {
+    hash = await computeImageHash(imageUri);
+    const hit = await getCachedClassification(hash);
+    if (hit) return { ...calibrateResult(await refreshCachedResult(hit)), cached: true };
+  } catch (error) {
+    console.warn('Classification cache lookup failed:', error);
+  }
+
+  // The first failure explains why the result comes from a fallback
+  let degraded: DegradedReason | undefined;
+
+  for (const provider of getClassifierChain()) {
+    if (!provider.isAvailable()) {
+      continue;
+    }
+    if (provider.metered && !(await hasVisionBudget())) {
+      degraded ??= {
+        provider: provider.id,
+        kind: 'quota-exhausted',
+        message: 'The image recognition budget for this app is used up until it resets.',
       };
+      continue;
+    }
+    try {
+      const result = await provider.classify(imageUri);
+      if (provider.metered) await recordVisionRequest();
+      // Cached raw, so updated calibration and learned weights apply to cache hits too
+      if (hash && provider.cacheable) {
+        await setCachedClassification(hash, result);
+      }
+      const calibrated = calibrateResult(result);
+      return degraded ? { ...calibrated, degraded } : calibrated;
     } catch (error) {
-      console.warn('Vision API classification failed, falling back to heuristic:', error);
+      const err = toClassifierError(error);
+      // Vision bills a request that found nothing like any other
+      if (provider.metered && err.kind === 'empty-labels') await recordVisionRequest();
+      console.warn(`${provider.name} classification failed (${err.kind}), trying next provider:`, err);
+      degraded ??= { provider: provider.id, kind: err.kind, message: describeClassifierError(err.kind) };
     }
-  } else {
-    console.warn('No Google Vision API key configured. Using heuristic fallback.');
   }
 
-  // ─── Heuristic Fallback ──────────────────────────────────────────────────
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-
-  const features = await analyzeImageFeatures(imageUri);
-  const categories: WasteCategory[] = [
-    'plastic', 'paper', 'glass', 'metal',
-    'organic', 'e-waste', 'textile', 'hazardous',
-  ];
+  console.warn('No classifier provider produced a result.');
+  const none = buildResult('unknown', 0, 'none');
+  return degraded ? { ...none, degraded } : none;
+}
 
-  const categoryIndex = Math.floor((features.dominantHue / 360) * categories.length);
-  const category = categories[categoryIndex] || 'unknown';
-  const confidence = Math.min(0.95, Math.max(0.60, 0.70 + features.saturation * 0.2 + features.brightness * 0.1));
+/** Confidence of a product database match: the packaging is known, not guessed */
+const BARCODE_CONFIDENCE = 0.97;
 
-  return {
-    ...WASTE_DATA[category],
-    confidence: Math.round(confidence * 100) / 100,
+/**
+ * Classify a product by its barcode from the product database.  Returns
+ * null when the barcode is malformed or unknown, so the caller can fall back
+ * to classifying a photo.
+ */
+export function classifyBarcode(barcode: string): ClassificationResult | null {
+  const product = lookupBarcode(barcode);
+  if (!product || !isWasteCategory(product.category)) return null;
+
+  const result: ClassificationResult = {
+    ...buildResult(
+      product.category,
+      BARCODE_CONFIDENCE,
+      'barcode',
+      `${product.name} (${product.packaging})`,
+      product.subcategory,
+    ),
+    barcode: product.barcode,
   };
+  return product.brand ? { ...result, brand: product.brand } : result;
 }
 
 /**
- * Get all available waste categories with their details.
+ * Get all available waste categories with their details, as defined by the
+ * active ruleset.
  */
 export function getWasteCategories(): ClassificationResult[] {
-  return Object.values(WASTE_DATA).map((data) => ({
-    ...data,
-    confidence: 0,
-  }));
+  return (Object.keys(getActiveRuleset().categories) as WasteCategory[]).map((c) => getDisposalInfo(c));
 }
 
 /**
- * Get disposal information for a specific category.
+ * Confidence the classifier assigned to `category` for this result — the
+ * main confidence for the winner, a candidate score for an alternative, and
+ * 0 for a category the classifier did not suggest.
  */
-export function getDisposalInfo(category: WasteCategory): ClassificationResult {
+export function getCandidateConfidence(
+  result: ClassificationResult,
+  category: WasteCategory,
+): number {
+  if (category === result.category) return result.confidence;
+  return result.alternatives?.find((a) => a.category === category)?.confidence ?? 0;
+}
+
+/**
+ * Get disposal information for a category, or for one of its sub-categories,
+ * from the active ruleset.  Sub-categories override the tip and
+ * recyclability; an unknown sub-category id is ignored.
+ */
+export function getDisposalInfo(category: WasteCategory, subcategory?: string): ClassificationResult {
+  const def = getActiveRuleset().categories[category];
+  const sub = subcategory ? def.subcategories?.[subcategory] : undefined;
   return {
-    ...WASTE_DATA[category],
+    category,
+    ...(sub && { subcategory, subcategoryLabel: sub.label }),
+    label: def.label,
+    description: def.description,
+    disposalTip: sub?.disposalTip ?? def.disposalTip,
+    recyclable: sub?.recyclable ?? def.recyclable,
+    icon: def.icon,
+    color: def.color,
     confidence: 0,
+    provider: 'none',
   };
 }
+
+/**
+ * Sub-categories defined for a category in the active ruleset.
+ */
+export function getSubcategories(
+  category: WasteCategory,
+): { id: string; label: string; recyclable: boolean }[] {
+  const subcategories = getActiveRuleset().categories[category]?.subcategories ?? {};
+  return Object.entries(subcategories).map(([id, sub]) => ({
+    id,
+    label: sub.label,
+    recyclable: sub.recyclable,
+  }));
+}
+
+/**
+ * Re-apply the active ruleset's label, tip and recyclability to a result,
+ * e.g. after switching to the user's city ruleset.
+ */
+export function applyActiveRuleset(result: ClassificationResult): ClassificationResult {
+  const { subcategory, subcategoryLabel, label, disposalTip, recyclable, icon, color } =
+    getDisposalInfo(result.category, result.subcategory);
+  return { ...result, subcategory, subcategoryLabel, label, disposalTip, recyclable, icon, color };
+}
@@ -0,0 +1,277 @@
+/**
+ * Waste Taxonomy
+ *
+ * Loads versioned, per-municipality sorting rulesets from JSON data files.
+ * A ruleset holds, for every waste category, its label, disposal tip,
+ * recyclability, matching keywords and point value.  The default ruleset is
+ * bundled; the app switches to a city's ruleset when one matches.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import defaultRulesetData from '../data/rulesets/default.json';
+import rivertonRulesetData from '../data/rulesets/riverton.json';
+import { type WasteCategory } from './waste-classifier';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface SubcategoryDefinition {
+  label: string;
+  disposalTip: string;
+  recyclable: boolean;
+  /** Overrides the parent category's points when set */
+  points?: number;
+  /** Keyword or phrase → match weight, matched within the parent category */
+  keywords: Record<string, number>;
+}
+
+export interface CategoryDefinition {
+  label: string;
+  description: string;
+  disposalTip: string;
+  recyclable: boolean;
+  icon: string;
+  color: string;
+  /** Base points for a report in this category */
+  points: number;
+  /** Keyword or phrase → match weight, see label-matcher */
+  keywords: Record<string, number>;
+  /** Terms that stop a label from matching this category */
+  negative?: string[];
+  /** Optional finer-grained types, keyed by sub-category id (e.g. `pet-1`) */
+  subcategories?: Record<string, SubcategoryDefinition>;
+}
+
+export interface WasteRuleset {
+  /** Ruleset file format version */
+  schemaVersion: number;
+  id: string;
+  /** Content version, bumped whenever the rules change */
+  version: string;
+  name: string;
+  /** City names this ruleset applies to (empty for the default) */
+  municipalities: string[];
+  categories: Record<WasteCategory, CategoryDefinition>;
+}
+
+export const RULESET_SCHEMA_VERSION = 1;
+
+const CATEGORY_IDS: WasteCategory[] = [
+  'plastic', 'paper', 'glass', 'metal', 'organic',
+  'e-waste', 'textile', 'hazardous', 'unknown',
+];
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Check that `data` is a well-formed ruleset.  Returns every problem found
+ * so a broken data file can be fixed in one pass.
+ */
+export function validateRuleset(
+  data: unknown,
+): { valid: true; ruleset: WasteRuleset } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isString = (v: unknown) => typeof v === 'string' && v.length > 0;
+
+  if (!isObject(data)) {
+    return { valid: false, errors: ['ruleset must be an object'] };
+  }
+
+  if (data.schemaVersion !== RULESET_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${RULESET_SCHEMA_VERSION}, got ${String(data.schemaVersion)}`);
+  }
+  for (const field of ['id', 'version', 'name']) {
+    if (!isString(data[field])) errors.push(`${field} must be a non-empty string`);
+  }
+  if (!Array.isArray(data.municipalities) || !data.municipalities.every(isString)) {
+    errors.push('municipalities must be an array of strings');
+  }
+
+  if (!isObject(data.categories)) {
+    errors.push('categories must be an object');
+  } else {
+    for (const id of Object.keys(data.categories)) {
+      if (!CATEGORY_IDS.includes(id as WasteCategory)) {
+        errors.push(`categories.${id} is not a known waste category`);
+      }
+    }
+
+    for (const id of CATEGORY_IDS) {
+      const def = data.categories[id];
+      const at = `categories.${id}`;
+      if (!isObject(def)) {
+        errors.push(`${at} is missing`);
+        continue;
+      }
+      for (const field of ['label', 'description', 'disposalTip', 'icon']) {
+        if (!isString(def[field])) errors.push(`${at}.${field} must be a non-empty string`);
+      }
+      if (typeof def.color !== 'string' || !/^#[0-9A-Fa-f]{6}$/.test(def.color)) {
+        errors.push(`${at}.color must be a #RRGGBB hex colour`);
+      }
+      if (typeof def.recyclable !== 'boolean') {
+        errors.push(`${at}.recyclable must be a boolean`);
+      }
+      if (typeof def.points !== 'number' || !Number.isInteger(def.points) || def.points < 0) {
+        errors.push(`${at}.points must be a non-negative integer`);
+      }
+      validateKeywords(def.keywords, `${at}.keywords`, errors);
+      if (def.negative !== undefined && (!Array.isArray(def.negative) || !def.negative.every(isString))) {
+        errors.push(`${at}.negative must be an array of strings`);
+      }
+
+      if (def.subcategories !== undefined) {
+        if (!isObject(def.subcategories)) {
+          errors.push(`${at}.subcategories must be an object`);
+          continue;
+        }
+        for (const [subId, sub] of Object.entries(def.subcategories)) {
+          const subAt = `${at}.subcategories.${subId}`;
+          if (!isObject(sub)) {
+            errors.push(`${subAt} must be an object`);
+            continue;
+          }
+          for (const field of ['label', 'disposalTip']) {
+            if (!isString(sub[field])) errors.push(`${subAt}.${field} must be a non-empty string`);
+          }
+          if (typeof sub.recyclable !== 'boolean') {
+            errors.push(`${subAt}.recyclable must be a boolean`);
+          }
+          if (
+            sub.points !== undefined &&
+            (typeof sub.points !== 'number' || !Number.isInteger(sub.points) || sub.points < 0)
+          ) {
+            errors.push(`${subAt}.points must be a non-negative integer`);
+          }
+          validateKeywords(sub.keywords, `${subAt}.keywords`, errors);
+        }
+      }
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, ruleset: data as unknown as WasteRuleset };
+}
+
+function validateKeywords(keywords: unknown, at: string, errors: string[]): void {
+  if (typeof keywords !== 'object' || keywords === null || Array.isArray(keywords)) {
+    errors.push(`${at} must be an object of keyword → weight`);
+    return;
+  }
+  for (const [kw, weight] of Object.entries(keywords)) {
+    if (typeof weight !== 'number' || weight <= 0) {
+      errors.push(`${at}["${kw}"] must be a positive number`);
+    }
+  }
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+const RULESET_PREFERENCE_KEY = '@sularchi/ruleset';
+
+const rulesets = new Map<string, WasteRuleset>();
+
+/**
+ * Validate and register a ruleset, replacing any with the same id.
+ * Throws if the ruleset is malformed.
+ */
+export function registerRuleset(data: unknown): WasteRuleset {
+  const result = validateRuleset(data);
+  if (!result.valid) {
+    throw new Error(`Invalid waste ruleset: ${result.errors.join('; ')}`);
+  }
+  rulesets.set(result.ruleset.id, result.ruleset);
+  return result.ruleset;
+}
+
+const DEFAULT_RULESET = registerRuleset(defaultRulesetData);
+registerRuleset(rivertonRulesetData);
+
+let activeRuleset: WasteRuleset = DEFAULT_RULESET;
+/** Ruleset the user picked in settings; null follows the user's city */
+let chosenRulesetId: string | null = null;
+
+/**
+ * All registered rulesets.
+ */
+export function listRulesets(): WasteRuleset[] {
+  return Array.from(rulesets.values());
+}
+
+/**
+ * The ruleset currently used for classification, disposal info and points.
+ */
+export function getActiveRuleset(): WasteRuleset {
+  return activeRuleset;
+}
+
+/**
+ * The ruleset the user picked, or null when it follows the user's city.
+ */
+export function getChosenRulesetId(): string | null {
+  return chosenRulesetId;
+}
+
+/**
+ * Switch to a registered ruleset and keep it wherever the user is.
+ */
+export async function setActiveRuleset(id: string): Promise<WasteRuleset> {
+  const ruleset = rulesets.get(id);
+  if (!ruleset) {
+    throw new Error(`Unknown waste ruleset: ${id}`);
+  }
+  activeRuleset = ruleset;
+  chosenRulesetId = id;
+  await AsyncStorage.setItem(RULESET_PREFERENCE_KEY, id);
+  return ruleset;
+}
+
+/**
+ * Forget the user's pick and go back to the default ruleset until the next
+ * scan finds the user's city.
+ */
+export async function clearRulesetChoice(): Promise<WasteRuleset> {
+  activeRuleset = DEFAULT_RULESET;
+  chosenRulesetId = null;
+  await AsyncStorage.removeItem(RULESET_PREFERENCE_KEY);
+  return activeRuleset;
+}
+
+/**
+ * Find the ruleset for a city (case-insensitive), if one is registered.
+ */
+export function findRulesetForCity(city: string): WasteRuleset | null {
+  const needle = city.trim().toLowerCase();
+  return (
+    listRulesets().find((r) => r.municipalities.some((m) => m.toLowerCase() === needle)) || null
+  );
+}
+
+/**
+ * Activate the city's ruleset, or the default one when the city has none or
+ * is unknown.  A ruleset the user picked stays active.  Returns the active
+ * ruleset.
+ */
+export function selectRulesetForCity(city: string | undefined): WasteRuleset {
+  if (chosenRulesetId === null) {
+    activeRuleset = (city ? findRulesetForCity(city) : null) ?? DEFAULT_RULESET;
+  }
+  return activeRuleset;
+}
+
+/**
+ * Restore the ruleset the user picked, if any.  Call once at app start.
+ */
+export async function loadRulesetPreference(): Promise<WasteRuleset> {
+  try {
+    const id = await AsyncStorage.getItem(RULESET_PREFERENCE_KEY);
+    const ruleset = id ? rulesets.get(id) : undefined;
+    if (ruleset) {
+      activeRuleset = ruleset;
+      chosenRulesetId = ruleset.id;
+    }
+  } catch (e) {
+    console.warn('Failed to load ruleset preference:', e);
+  }
+  return activeRuleset;
+}
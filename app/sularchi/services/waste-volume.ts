@@ -0,0 +1,75 @@
+/**
+ * Waste Volume
+ *
+ * How much waste a report covers, from a single bottle to an illegal dump
+ * site.  The scan flow estimates it from the detected boxes and the user
+ * confirms it; crews use it to pick the vehicle to send.
+ */
+
+import { type ClassificationResult } from './waste-classifier';
+
+export type WasteVolume = 'single' | 'bag' | 'pile' | 'dump';
+
+export interface VolumeOption {
+  label: string;
+  icon: string;
+  description: string;
+  /** Vehicle a crew needs for the pickup */
+  vehicle: string;
+}
+
+export const VOLUME_OPTIONS: Record<WasteVolume, VolumeOption> = {
+  single: {
+    label: 'Single item',
+    icon: '🥤',
+    description: 'One piece of litter',
+    vehicle: 'Street sweeper on foot',
+  },
+  bag: {
+    label: 'Bag',
+    icon: '🛍️',
+    description: 'A few items, fits in a bin bag',
+    vehicle: 'Small van',
+  },
+  pile: {
+    label: 'Pile',
+    icon: '🗑️',
+    description: 'Several bags, or bulky items',
+    vehicle: 'Pickup truck',
+  },
+  dump: {
+    label: 'Dump site',
+    icon: '🚛',
+    description: 'Truckloads dumped illegally',
+    vehicle: 'Tipper truck with loader',
+  },
+};
+
+export const WASTE_VOLUMES = Object.keys(VOLUME_OPTIONS) as WasteVolume[];
+
+/** Share of the photo the detected items must cover to count as a pile */
+const PILE_COVERAGE = 0.6;
+/** Number of detected items that makes a pile regardless of coverage */
+const PILE_ITEM_COUNT = 5;
+/** A lone item covering more than this is probably a bag, not litter */
+const SINGLE_MAX_COVERAGE = 0.5;
+
+/**
+ * Estimate the volume from the items detected in the photo.  A photo cannot
+ * show the extent of a dump site, so `dump` is only ever chosen by the user;
+ * without detected items a single item is assumed.
+ */
+export function estimateVolume(result: ClassificationResult): WasteVolume {
+  const items = result.items ?? [];
+  if (items.length === 0) return 'single';
+
+  // Boxes may overlap, so the summed area is capped at the whole photo
+  const coverage = Math.min(
+    1,
+    items.reduce((sum, item) => sum + item.box.width * item.box.height, 0),
+  );
+
+  if (items.length >= PILE_ITEM_COUNT || coverage >= PILE_COVERAGE) return 'pile';
+  if (items.length === 1 && coverage <= SINGLE_MAX_COVERAGE) return 'single';
+  return 'bag';
+}
@@ -0,0 +1,34 @@
+/**
+ * Stub Configuration
+ *
+ * Read once from the environment.  The failure knobs make the stub misbehave
+ * on purpose so the app's retries and backoff can be watched locally.
+ */
+
+export interface StubConfig {
+  port: number;
+  /** Largest accepted request body in bytes (the base64 photo plus JSON) */
+  maxBodyBytes: number;
+  /** Share of requests (0-1) answered with 503 before being processed */
+  failRate: number;
+  /** Seconds sent as Retry-After with the injected 503s */
+  retryAfterSeconds: number;
+  /** Delay before every response, to try the app's timeout */
+  latencyMs: number;
+}
+
+const intFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+export function loadConfig(): StubConfig {
+  const failRate = Number(process.env.SYNC_STUB_FAIL_RATE);
+  return {
+    port: intFromEnv('PORT', 8788),
+    maxBodyBytes: intFromEnv('MAX_BODY_BYTES', 5 * 1024 * 1024),
+    failRate: failRate >= 0 && failRate <= 1 ? failRate : 0,
+    retryAfterSeconds: intFromEnv('SYNC_STUB_RETRY_AFTER', 0),
+    latencyMs: intFromEnv('SYNC_STUB_LATENCY_MS', 0),
+  };
+}
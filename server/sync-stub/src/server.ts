@@ -0,0 +1,172 @@
+/**
+ * Sularchi Sync Stub
+ *
+ * A local stand-in for the municipality's complaints API that the app's
+ * sync outbox uploads to.  Requests that change data need an
+ * Idempotency-Key; repeating one returns the first response unchanged.
+ * Requests without an X-Device-Id act as the municipality, which is how a
+ * status change is pushed back to the app.
+ *
+ *   POST /v1/complaints                   header X-Device-Id, Idempotency-Key
+ *   POST /v1/complaints/:id/status        header Idempotency-Key
+ *   GET  /v1/complaints/changes?since=…   header X-Device-Id
+ *   GET  /v1/complaints
+ *   GET  /healthz
+ */
+
+import http from 'node:http';
+import { loadConfig, type StubConfig } from './config';
+import { ComplaintStore, StoreError } from './store';
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const STATUS_PATH = /^\/v1\/complaints\/([^/]+)\/status$/;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read and parse a JSON body, refusing anything over `maxBytes` without
+ * buffering it.
+ */
+function readJson(req: http.IncomingMessage, maxBytes: number): Promise<any> {
+  if (Number(req.headers['content-length']) > maxBytes) {
+    return Promise.reject(new HttpError(413, 'too-large', `Body exceeds ${maxBytes} bytes`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'too-large', `Body exceeds ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'bad-json', 'Body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function deviceIdOf(req: http.IncomingMessage, required: boolean): string | null {
+  const deviceId = req.headers['x-device-id'];
+  if (typeof deviceId === 'string' && DEVICE_ID_PATTERN.test(deviceId)) return deviceId;
+  if (deviceId === undefined && !required) return null;
+  throw new HttpError(400, 'bad-device-id', 'X-Device-Id header is missing or malformed');
+}
+
+/**
+ * Run a data-changing request once per Idempotency-Key and replay its
+ * response for repeats.  Failures are not remembered, so a retry after one
+ * is processed again.
+ */
+async function idempotent(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  store: ComplaintStore,
+  scope: string,
+  handle: () => Promise<{ status: number; body: unknown }>,
+): Promise<void> {
+  const key = req.headers['idempotency-key'];
+  if (typeof key !== 'string' || key.length === 0 || key.length > 200) {
+    throw new HttpError(400, 'bad-idempotency-key', 'Idempotency-Key header is missing or malformed');
+  }
+
+  const previous = store.recall(scope, key);
+  if (previous) {
+    sendJson(res, previous.status, previous.body, { 'Idempotent-Replayed': 'true' });
+    return;
+  }
+  const response = await handle();
+  store.remember(scope, key, response);
+  sendJson(res, response.status, response.body);
+}
+
+export function createServer(config: StubConfig, store: ComplaintStore = new ComplaintStore()): http.Server {
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (config.latencyMs > 0) await new Promise((resolve) => setTimeout(resolve, config.latencyMs));
+
+      if (req.method === 'GET' && url.pathname === '/healthz') {
+        sendJson(res, 200, { ok: true, complaints: store.list().length });
+        return;
+      }
+      if (url.pathname.startsWith('/v1/') && Math.random() < config.failRate) {
+        const headers: Record<string, string> =
+          config.retryAfterSeconds > 0 ? { 'Retry-After': String(config.retryAfterSeconds) } : {};
+        throw new HttpError(503, 'injected-failure', 'Failing on purpose (SYNC_STUB_FAIL_RATE)', headers);
+      }
+
+      const statusMatch = url.pathname.match(STATUS_PATH);
+      if (req.method === 'POST' && url.pathname === '/v1/complaints') {
+        const deviceId = deviceIdOf(req, true)!;
+        await idempotent(req, res, store, deviceId, async () => {
+          const complaint = store.create(deviceId, await readJson(req, config.maxBodyBytes));
+          console.log(`+ ${complaint.id} from ${deviceId} (${complaint.localId}, ${complaint.photoBytes} photo bytes)`);
+          return { status: 201, body: { id: complaint.id, status: complaint.status, updatedAt: complaint.updatedAt } };
+        });
+      } else if (req.method === 'POST' && statusMatch) {
+        const deviceId = deviceIdOf(req, false);
+        const id = decodeURIComponent(statusMatch[1]);
+        await idempotent(req, res, store, deviceId ?? 'municipality', async () => {
+          const complaint = store.changeStatus(id, await readJson(req, config.maxBodyBytes), deviceId);
+          console.log(`~ ${complaint.id} is now ${complaint.status} (${deviceId ?? 'municipality'})`);
+          return { status: 200, body: { id: complaint.id, status: complaint.status, updatedAt: complaint.updatedAt } };
+        });
+      } else if (req.method === 'GET' && url.pathname === '/v1/complaints/changes') {
+        const deviceId = deviceIdOf(req, true)!;
+        const since = Number(url.searchParams.get('since')) || 0;
+        sendJson(res, 200, store.changesSince(deviceId, since));
+      } else if (req.method === 'GET' && url.pathname === '/v1/complaints') {
+        sendJson(res, 200, { complaints: store.list() });
+      } else {
+        throw new HttpError(404, 'not-found', 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof HttpError || error instanceof StoreError) {
+        const headers = error instanceof HttpError ? error.headers : {};
+        sendJson(res, error.status, { error: { code: error.code, message: error.message } }, headers);
+      } else {
+        console.error('Unhandled stub error:', error);
+        sendJson(res, 500, { error: { code: 'internal', message: 'Internal error' } });
+      }
+    }
+  });
+}
+
+if (require.main === module) {
+  const config = loadConfig();
+  createServer(config).listen(config.port, () => {
+    console.log(
+      `Sync stub listening on :${config.port}${config.failRate > 0 ? ` (failing ${config.failRate * 100}% of requests)` : ''}`,
+    );
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * In-memory Complaint Store
+ *
+ * What the stub keeps between requests: uploaded reports, their status
+ * changes in one feed, and the response to every idempotency key so a
+ * retried request is answered without being applied twice.  A restart
+ * forgets everything.
+ */
+
+export type ComplaintStatus = 'pending' | 'in-progress' | 'resolved' | 'rejected' | 'duplicate' | 'reopened';
+
+/** Same state machine as the app (app/sularchi/services/complaint-status.ts) */
+const TRANSITIONS: Record<ComplaintStatus, ComplaintStatus[]> = {
+  pending: ['in-progress', 'resolved', 'rejected', 'duplicate'],
+  'in-progress': ['resolved', 'rejected', 'duplicate'],
+  reopened: ['in-progress', 'resolved', 'rejected', 'duplicate'],
+  resolved: ['reopened'],
+  rejected: ['reopened'],
+  duplicate: ['reopened'],
+};
+
+export interface StatusActor {
+  kind: 'reporter' | 'municipality' | 'system';
+  name: string;
+}
+
+export interface StatusChange {
+  from: ComplaintStatus | null;
+  to: ComplaintStatus;
+  at: string;
+  actor: StatusActor;
+  note?: string;
+}
+
+export interface StoredComplaint {
+  id: string;
+  /** Id of the report on the device that filed it */
+  localId: string;
+  deviceId: string;
+  status: ComplaintStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Size of the uploaded photo; the photo itself is not kept */
+  photoBytes: number;
+  /** The report as filed, minus the photo */
+  report: Record<string, unknown>;
+  history: StatusChange[];
+}
+
+interface FeedEntry {
+  seq: number;
+  complaintId: string;
+  /** Device that made the change; null for the municipality */
+  sourceDeviceId: string | null;
+  change: StatusChange;
+}
+
+export class StoreError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'StoreError';
+  }
+}
+
+const isStatus = (value: unknown): value is ComplaintStatus =>
+  typeof value === 'string' && value in TRANSITIONS;
+
+export class ComplaintStore {
+  private readonly complaints = new Map<string, StoredComplaint>();
+  private readonly responses = new Map<string, { status: number; body: unknown }>();
+  private readonly feed: FeedEntry[] = [];
+  private nextId = 1;
+
+  /**
+   * The response already given for an idempotency key, if any.
+   */
+  recall(scope: string, key: string): { status: number; body: unknown } | undefined {
+    return this.responses.get(`${scope}:${key}`);
+  }
+
+  remember(scope: string, key: string, response: { status: number; body: unknown }): void {
+    this.responses.set(`${scope}:${key}`, response);
+  }
+
+  list(): StoredComplaint[] {
+    return [...this.complaints.values()];
+  }
+
+  /**
+   * Store a report uploaded by `deviceId` and assign its server id.
+   */
+  create(deviceId: string, body: any): StoredComplaint {
+    if (typeof body?.localId !== 'string' || body.localId.length === 0) {
+      throw new StoreError(400, 'bad-report', '`localId` is required');
+    }
+    const status = body.status ?? 'pending';
+    if (!isStatus(status)) {
+      throw new StoreError(400, 'bad-report', `Unknown status ${status}`);
+    }
+
+    const { photo, ...report } = body;
+    const now = new Date().toISOString();
+    const createdAt = typeof body.createdAt === 'string' ? body.createdAt : now;
+    const complaint: StoredComplaint = {
+      id: `srv-${this.nextId++}`,
+      localId: body.localId,
+      deviceId,
+      status,
+      createdAt,
+      updatedAt: now,
+      photoBytes: typeof photo === 'string' ? Math.floor((photo.length * 3) / 4) : 0,
+      report,
+      history: [{ from: null, to: status, at: createdAt, actor: { kind: 'reporter', name: 'Reporter' } }],
+    };
+    this.complaints.set(complaint.id, complaint);
+    return complaint;
+  }
+
+  /**
+   * Apply a status change.  When the change names the status it started
+   * from, it must still be the current one.
+   */
+  changeStatus(id: string, body: any, sourceDeviceId: string | null): StoredComplaint {
+    const complaint = this.complaints.get(id);
+    if (!complaint) throw new StoreError(404, 'not-found', `No complaint ${id}`);
+    if (!isStatus(body?.to)) throw new StoreError(400, 'bad-status', '`to` must be a known status');
+    if (body.from != null && body.from !== complaint.status) {
+      throw new StoreError(409, 'stale-status', `The complaint is ${complaint.status}, not ${body.from}`);
+    }
+    if (!TRANSITIONS[complaint.status].includes(body.to)) {
+      throw new StoreError(409, 'bad-transition', `Cannot change a ${complaint.status} complaint to ${body.to}`);
+    }
+
+    const change: StatusChange = {
+      from: complaint.status,
+      to: body.to,
+      at: typeof body.at === 'string' ? body.at : new Date().toISOString(),
+      actor:
+        body.actor && typeof body.actor.name === 'string'
+          ? { kind: body.actor.kind ?? 'municipality', name: body.actor.name }
+          : { kind: 'municipality', name: 'Municipality' },
+      ...(typeof body.note === 'string' && body.note && { note: body.note }),
+    };
+    complaint.status = change.to;
+    complaint.updatedAt = new Date().toISOString();
+    complaint.history.push(change);
+    this.feed.push({ seq: this.feed.length + 1, complaintId: id, sourceDeviceId, change });
+    return complaint;
+  }
+
+  /**
+   * Status changes to `deviceId`'s reports made by anyone else after the
+   * `since` cursor.
+   */
+  changesSince(deviceId: string, since: number): { changes: (StatusChange & { complaintId: string })[]; cursor: string } {
+    const changes = this.feed
+      .filter((entry) => entry.seq > since && entry.sourceDeviceId !== deviceId)
+      .filter((entry) => this.complaints.get(entry.complaintId)?.deviceId === deviceId)
+      .map((entry) => ({ complaintId: entry.complaintId, ...entry.change }));
+    return { changes, cursor: String(Math.max(since, this.feed.length)) };
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Proxy Configuration
+ *
+ * Read once from the environment.  `--stub` (or VISION_STUB=1) serves
+ * recorded Vision responses instead of calling Google, so the proxy runs
+ * locally without a key.
+ */
+
+import path from 'node:path';
+
+export interface ProxyConfig {
+  port: number;
+  /** Google Cloud Vision key; never sent to clients */
+  visionApiKey: string;
+  /** Serve recorded responses from `recordingsDir` instead of calling Vision */
+  stub: boolean;
+  recordingsDir: string;
+  /** Largest accepted request body in bytes (the base64 image plus JSON) */
+  maxBodyBytes: number;
+  /** Requests allowed per device in a sliding minute */
+  perMinuteLimit: number;
+  /** Requests allowed per device in a sliding day */
+  perDayLimit: number;
+  /** Timeout for the upstream Vision request */
+  upstreamTimeoutMs: number;
+}
+
+const intFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+export function loadConfig(argv: string[] = process.argv.slice(2)): ProxyConfig {
+  return {
+    port: intFromEnv('PORT', 8787),
+    visionApiKey: process.env.GOOGLE_VISION_API_KEY || '',
+    stub: argv.includes('--stub') || process.env.VISION_STUB === '1',
+    recordingsDir:
+      process.env.VISION_RECORDINGS_DIR || path.resolve(__dirname, '..', 'recordings'),
+    maxBodyBytes: intFromEnv('MAX_BODY_BYTES', 2 * 1024 * 1024),
+    perMinuteLimit: intFromEnv('RATE_LIMIT_PER_MINUTE', 10),
+    perDayLimit: intFromEnv('RATE_LIMIT_PER_DAY', 200),
+    upstreamTimeoutMs: intFromEnv('UPSTREAM_TIMEOUT_MS', 12000),
+  };
+}
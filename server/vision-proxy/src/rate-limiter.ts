@@ -0,0 +1,63 @@
+/**
+ * Per-device Rate Limiter
+ *
+ * Sliding-window request counts kept in memory, keyed by the device id the
+ * app sends.  A restart forgets all counts, which is acceptable for a single
+ * proxy instance.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Seconds until the next request would be allowed (when refused) */
+  retryAfterSeconds: number;
+}
+
+export class RateLimiter {
+  private readonly requests = new Map<string, number[]>();
+
+  constructor(
+    private readonly perMinute: number,
+    private readonly perDay: number,
+  ) {}
+
+  /**
+   * Count a request for `deviceId` if it is within both limits.
+   */
+  check(deviceId: string, now: number = Date.now()): RateLimitDecision {
+    const history = (this.requests.get(deviceId) ?? []).filter((t) => now - t < DAY_MS);
+    const lastMinute = history.filter((t) => now - t < MINUTE_MS);
+
+    if (history.length >= this.perDay) {
+      this.requests.set(deviceId, history);
+      return { allowed: false, retryAfterSeconds: Math.ceil((history[0] + DAY_MS - now) / 1000) };
+    }
+    if (lastMinute.length >= this.perMinute) {
+      this.requests.set(deviceId, history);
+      return { allowed: false, retryAfterSeconds: Math.ceil((lastMinute[0] + MINUTE_MS - now) / 1000) };
+    }
+
+    history.push(now);
+    this.requests.set(deviceId, history);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  /**
+   * Take back the latest request counted for `deviceId`, for a request that
+   * was refused after being counted.
+   */
+  refund(deviceId: string): void {
+    this.requests.get(deviceId)?.pop();
+  }
+
+  /**
+   * Forget devices with no requests in the last day.
+   */
+  prune(now: number = Date.now()): void {
+    for (const [deviceId, history] of this.requests) {
+      if (history.every((t) => now - t >= DAY_MS)) this.requests.delete(deviceId);
+    }
+  }
+}
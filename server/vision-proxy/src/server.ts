@@ -0,0 +1,149 @@
+/**
+ * Sularchi Vision Proxy
+ *
+ * Accepts photos from the app, attaches the Vision API key server-side and
+ * returns normalized labels.  Enforces per-device rate limits and a request
+ * size cap so a leaked endpoint cannot drain the quota.
+ *
+ *   POST /v1/annotate   { "image": "<base64 JPEG>" }   header X-Device-Id
+ *   GET  /healthz
+ */
+
+import http from 'node:http';
+import { loadConfig, type ProxyConfig } from './config';
+import { RateLimiter } from './rate-limiter';
+import { annotateImage, UpstreamError } from './vision';
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read the request body, refusing anything over `maxBytes` without
+ * buffering it.  The refusal closes the connection once it is sent; the
+ * rest of an oversized body is discarded meanwhile, so the client sees the
+ * 413 rather than a broken pipe.
+ */
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+  const tooLarge = () =>
+    new HttpError(413, 'too-large', `Body exceeds ${maxBytes} bytes`, { Connection: 'close' });
+  if (Number(req.headers['content-length']) > maxBytes) {
+    req.resume();
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        chunks.length = 0;
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+async function handleAnnotate(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  config: ProxyConfig,
+  limiter: RateLimiter,
+): Promise<void> {
+  const deviceId = req.headers['x-device-id'];
+  if (typeof deviceId !== 'string' || !DEVICE_ID_PATTERN.test(deviceId)) {
+    throw new HttpError(400, 'bad-device-id', 'X-Device-Id header is missing or malformed');
+  }
+
+  const decision = limiter.check(deviceId);
+  if (!decision.allowed) {
+    throw new HttpError(429, 'rate-limited', 'Too many requests from this device', {
+      'Retry-After': String(decision.retryAfterSeconds),
+    });
+  }
+
+  // Malformed and oversized requests do not count against the device's quota
+  let body: any;
+  try {
+    body = JSON.parse(await readBody(req, config.maxBodyBytes));
+  } catch (error) {
+    limiter.refund(deviceId);
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'bad-json', 'Body must be JSON');
+  }
+  if (typeof body?.image !== 'string' || body.image.length === 0 || !/^[A-Za-z0-9+/=]+$/.test(body.image)) {
+    limiter.refund(deviceId);
+    throw new HttpError(400, 'bad-image', '`image` must be a base64-encoded JPEG');
+  }
+
+  const annotation = await annotateImage(body.image, config);
+  sendJson(res, 200, annotation);
+}
+
+export function createServer(config: ProxyConfig): http.Server {
+  const limiter = new RateLimiter(config.perMinuteLimit, config.perDayLimit);
+  const pruneTimer = setInterval(() => limiter.prune(), PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+
+  return http.createServer(async (req, res) => {
+    try {
+      if (req.method === 'GET' && req.url === '/healthz') {
+        sendJson(res, 200, { ok: true, stub: config.stub });
+      } else if (req.method === 'POST' && req.url === '/v1/annotate') {
+        await handleAnnotate(req, res, config, limiter);
+      } else {
+        throw new HttpError(404, 'not-found', 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof HttpError || error instanceof UpstreamError) {
+        const headers = error instanceof HttpError ? error.headers : {};
+        sendJson(res, error.status, { error: { code: error.code, message: error.message } }, headers);
+      } else {
+        console.error('Unhandled proxy error:', error);
+        sendJson(res, 500, { error: { code: 'internal', message: 'Internal error' } });
+      }
+    }
+  });
+}
+
+if (require.main === module) {
+  const config = loadConfig();
+  if (!config.stub && !config.visionApiKey) {
+    console.error('Set GOOGLE_VISION_API_KEY, or run with --stub to replay recorded responses.');
+    process.exit(1);
+  }
+  createServer(config).listen(config.port, () => {
+    console.log(
+      `Vision proxy listening on :${config.port}${config.stub ? ` (stub: ${config.recordingsDir})` : ''}`,
+    );
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Vision Upstream
+ *
+ * Calls Google Cloud Vision (or replays a recorded response in stub mode)
+ * and normalizes the answer to the shape the app consumes: a flat list of
+ * labels, localized objects with boxes, OCR text and logos.
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ProxyConfig } from './config';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface NormalizedLabel {
+  description: string;
+  /** 0-1 */
+  score: number;
+}
+
+export interface NormalizedObject extends NormalizedLabel {
+  /** Normalized box (0-1, origin top-left) */
+  box: { x: number; y: number; width: number; height: number };
+}
+
+export interface NormalizedAnnotation {
+  labels: NormalizedLabel[];
+  objects: NormalizedObject[];
+  /** All text found in the image, for recycling codes */
+  text: string;
+  /** Brand logos */
+  logos: NormalizedLabel[];
+}
+
+/** Failure talking to Vision, mapped onto the status the proxy answers with */
+export class UpstreamError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+const VISION_API_URL = 'https://vision.googleapis.com/v1/images:annotate';
+
+const FEATURES = [
+  { type: 'LABEL_DETECTION', maxResults: 15 },
+  { type: 'OBJECT_LOCALIZATION', maxResults: 10 },
+  { type: 'TEXT_DETECTION', maxResults: 1 },
+  { type: 'LOGO_DETECTION', maxResults: 3 },
+];
+
+// ─── Normalization ───────────────────────────────────────────────────────────
+
+/**
+ * Turn one `responses[]` entry of an annotate call into the normalized shape.
+ */
+export function normalizeAnnotation(response: any): NormalizedAnnotation {
+  const round = (n: unknown) => Math.round((typeof n === 'number' ? n : 0) * 1000) / 1000;
+  const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+  const toLabels = (annotations: any[] | undefined): NormalizedLabel[] =>
+    (annotations ?? [])
+      .filter((a: any) => typeof a?.description === 'string')
+      .map((a: any) => ({ description: a.description, score: round(a.score) }));
+
+  const labels = toLabels(response?.labelAnnotations);
+  const logos = toLabels(response?.logoAnnotations);
+  // The first text annotation holds all text found in the image
+  const fullText = response?.textAnnotations?.[0]?.description;
+  const text = typeof fullText === 'string' ? fullText : '';
+
+  const objects: NormalizedObject[] = [];
+  for (const oa of response?.localizedObjectAnnotations ?? []) {
+    if (typeof oa?.name !== 'string') continue;
+    const vertices: { x?: number; y?: number }[] = oa.boundingPoly?.normalizedVertices ?? [];
+    if (vertices.length === 0) continue;
+
+    const xs = vertices.map((v) => clamp(v.x ?? 0));
+    const ys = vertices.map((v) => clamp(v.y ?? 0));
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    objects.push({
+      description: oa.name,
+      score: round(oa.score),
+      box: {
+        x: round(x),
+        y: round(y),
+        width: round(Math.max(...xs) - x),
+        height: round(Math.max(...ys) - y),
+      },
+    });
+  }
+
+  return { labels, objects, text, logos };
+}
+
+// ─── Upstream Calls ──────────────────────────────────────────────────────────
+
+async function callVision(base64Image: string, config: ProxyConfig): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.upstreamTimeoutMs);
+  try {
+    const response = await fetch(`${VISION_API_URL}?key=${config.visionApiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ requests: [{ image: { content: base64Image }, features: FEATURES }] }),
+      signal: controller.signal,
+    });
+
+    if (response.status === 429) {
+      throw new UpstreamError(503, 'upstream-quota', 'Vision quota exhausted');
+    }
+    if (!response.ok) {
+      // Key problems are ours, not the client's: never echo Google's message
+      console.warn(`Vision HTTP ${response.status}: ${(await response.text()).slice(0, 300)}`);
+      throw new UpstreamError(502, 'upstream-error', `Vision returned HTTP ${response.status}`);
+    }
+
+    const data: any = await response.json();
+    const first = data?.responses?.[0];
+    if (first?.error) {
+      throw new UpstreamError(502, 'upstream-error', `Vision error ${first.error.code}`);
+    }
+    return first;
+  } catch (error) {
+    if (error instanceof UpstreamError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new UpstreamError(504, 'upstream-timeout', 'Vision did not answer in time');
+    }
+    throw new UpstreamError(502, 'upstream-error', 'Could not reach Vision');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Pick a recorded response for the image.  The choice is derived from the
+ * image hash so the same photo always gets the same answer.
+ */
+async function replayRecording(base64Image: string, config: ProxyConfig): Promise<any> {
+  const files = (await readdir(config.recordingsDir)).filter((f) => f.endsWith('.json')).sort();
+  if (files.length === 0) {
+    throw new UpstreamError(502, 'upstream-error', `No recordings in ${config.recordingsDir}`);
+  }
+
+  const digest = createHash('sha256').update(base64Image).digest();
+  const file = files[digest.readUInt32BE(0) % files.length];
+  const data = JSON.parse(await readFile(path.join(config.recordingsDir, file), 'utf8'));
+  return data?.responses?.[0];
+}
+
+/**
+ * Annotate an image and return its normalized annotation.
+ */
+export async function annotateImage(
+  base64Image: string,
+  config: ProxyConfig,
+): Promise<NormalizedAnnotation> {
+  const response = config.stub
+    ? await replayRecording(base64Image, config)
+    : await callVision(base64Image, config);
+  return normalizeAnnotation(response);
+}